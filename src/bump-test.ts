@@ -0,0 +1,61 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { bumpVersion, getBumpType, incrementVersion } from './bump';
+import { ChangeType } from './changes';
+import { mockChange } from './test-utils';
+
+test('Bump types', () => {
+    const bugfix = mockChange({ changeType: ChangeType.BUGFIX });
+    const feature = mockChange({ changeType: ChangeType.FEATURE });
+    const task = mockChange({ changeType: ChangeType.TASK });
+    const breakingTask = mockChange({ changeType: ChangeType.TASK, breaking: true });
+
+    expect(getBumpType([])).toEqual('patch');
+    expect(getBumpType([bugfix, task])).toEqual('patch');
+    expect(getBumpType([bugfix, feature])).toEqual('minor');
+    expect(getBumpType([mockChange({ changeType: ChangeType.DEPRECATION })])).toEqual('minor');
+    expect(getBumpType([feature, breakingTask])).toEqual('major');
+});
+
+test('Incrementing versions', () => {
+    expect(incrementVersion('1.2.3', 'patch')).toEqual({ bump: 'patch', version: '1.2.4' });
+    expect(incrementVersion('1.2.3', 'minor')).toEqual({ bump: 'minor', version: '1.3.0' });
+    expect(incrementVersion('1.2.3', 'major')).toEqual({ bump: 'major', version: '2.0.0' });
+    expect(incrementVersion('1.2.3', 'minor', 'rc')).toEqual({ bump: 'minor', version: '1.3.0-rc.0' });
+});
+
+test('Breaking changes before 1.0.0 are minor bumps', () => {
+    expect(incrementVersion('0.4.1', 'major')).toEqual({ bump: 'minor', version: '0.5.0' });
+    expect(incrementVersion('0.4.1', 'minor')).toEqual({ bump: 'minor', version: '0.5.0' });
+    expect(incrementVersion('0.4.1', 'patch')).toEqual({ bump: 'patch', version: '0.4.2' });
+});
+
+test('Prereleases', () => {
+    // 1.3.0 already has the new features, but not breaking changes
+    expect(incrementVersion('1.3.0-rc.1', 'minor').version).toEqual('1.3.0');
+    expect(incrementVersion('1.3.0-rc.1', 'minor', 'rc').version).toEqual('1.3.0-rc.2');
+    expect(incrementVersion('1.3.0-rc.1', 'major').version).toEqual('2.0.0');
+    expect(incrementVersion('2.0.0-beta.1', 'major').version).toEqual('2.0.0');
+    expect(incrementVersion('1.2.4-rc.1', 'minor').version).toEqual('1.3.0');
+});
+
+test('Bumping for changes', () => {
+    const feature = mockChange({ changeType: ChangeType.FEATURE });
+    const breakingFix = mockChange({ changeType: ChangeType.BUGFIX, breaking: true });
+    expect(bumpVersion('1.2.3', [feature])).toEqual({ bump: 'minor', version: '1.3.0' });
+    expect(bumpVersion('v0.9.0', [breakingFix])).toEqual({ bump: 'minor', version: '0.10.0' });
+});
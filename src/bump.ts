@@ -0,0 +1,81 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import semver, { ReleaseType } from 'semver';
+
+import { BumpType, DEFAULT_CHANGE_TYPES, getChangeTypeConfig, IChange } from './changes';
+
+const BUMP_ORDER: BumpType[] = ['patch', 'minor', 'major'];
+
+export interface IBump {
+    // The part of the version that's bumped, once 0.x versions are taken into account
+    bump: BumpType;
+    version: string;
+}
+
+export function getChangeBumpType(change: IChange, changeTypes = DEFAULT_CHANGE_TYPES): BumpType {
+    if (change.breaking) return 'major';
+    return getChangeTypeConfig(change.changeType, changeTypes)?.bump ?? 'patch';
+}
+
+// The biggest bump that any of the changes needs, by semver
+export function getBumpType(changes: IChange[], changeTypes = DEFAULT_CHANGE_TYPES): BumpType {
+    let bump: BumpType = 'patch';
+    for (const change of changes) {
+        const changeBump = getChangeBumpType(change, changeTypes);
+        if (BUMP_ORDER.indexOf(changeBump) > BUMP_ORDER.indexOf(bump)) bump = changeBump;
+    }
+    return bump;
+}
+
+// Works out the version after the given one for a bump. Before 1.0.0, anything can change at any
+// time, so breaking changes only need a new minor version. If the version is a prerelease, the
+// release it leads up to may already be enough of a bump, in which case that's what we get. Given
+// a prerelease identifier (eg. 'rc'), this gives the next prerelease rather than a full release.
+export function incrementVersion(version: string, bumpType: BumpType, preid?: string): IBump {
+    const ver = semver.parse(version);
+    if (ver === null) throw new Error(`${version} is not a valid version`);
+
+    const bump = ver.major === 0 && bumpType === 'major' ? 'minor' : bumpType;
+
+    if (ver.prerelease.length > 0) {
+        const covered = (
+            bump === 'patch' ||
+            (bump === 'minor' && ver.patch === 0) ||
+            (bump === 'major' && ver.minor === 0 && ver.patch === 0)
+        );
+        if (covered) {
+            return {
+                bump,
+                version: preid !== undefined ?
+                    semver.inc(ver, 'prerelease', preid) :
+                    `${ver.major}.${ver.minor}.${ver.patch}`,
+            };
+        }
+    }
+
+    return {
+        bump,
+        version: preid !== undefined ? semver.inc(ver, ('pre' + bump) as ReleaseType, preid) : semver.inc(ver, bump),
+    };
+}
+
+// The version that should come after the given one, to release the given changes
+export function bumpVersion(
+    version: string, changes: IChange[], changeTypes = DEFAULT_CHANGE_TYPES, preid?: string,
+): IBump {
+    return incrementVersion(version, getBumpType(changes, changeTypes), preid);
+}
@@ -0,0 +1,115 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fsProm from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { PrCache } from './cache';
+import { MergeCommit, PrInfo } from './changes';
+import { Forge } from './forge';
+
+function mockForge(updated: number[] | null = []) {
+    return {
+        repository: { baseUrl: 'https://github.com', host: 'github.com', owner: 'bert', repo: 'llamalist' },
+        getPrInfo: jest.fn(async (mergeCommits: MergeCommit[]) => mergeCommits.map(c => ({
+            number: c.PrNumber,
+            merge_commit_sha: c.sha,
+        }) as PrInfo)),
+        getPrsUpdatedSince: jest.fn(async () => updated),
+    };
+}
+
+let cacheDir: string;
+
+beforeEach(async () => {
+    cacheDir = await fsProm.mkdtemp(path.join(os.tmpdir(), 'allchange-test-'));
+});
+
+afterEach(async () => {
+    await fsProm.rm(cacheDir, { recursive: true });
+});
+
+test('PRs are only fetched once', async () => {
+    const forge = mockForge();
+    const commits = [{ PrNumber: 1, sha: 'aaa' }, { PrNumber: 2, sha: 'bbb' }];
+
+    const cache = await PrCache.load(cacheDir);
+    expect((await cache.getPrInfo(forge as unknown as Forge, commits)).length).toEqual(2);
+    await cache.save();
+
+    const newCache = await PrCache.load(cacheDir);
+    const prs = await newCache.getPrInfo(forge as unknown as Forge, commits);
+    expect(prs.map(pr => pr.number)).toEqual([1, 2]);
+    expect(forge.getPrInfo).toHaveBeenCalledTimes(1);
+});
+
+test('PRs are fetched again if their merge commit changes', async () => {
+    const forge = mockForge();
+
+    const cache = await PrCache.load(cacheDir);
+    await cache.getPrInfo(forge as unknown as Forge, [{ PrNumber: 1, sha: 'aaa' }]);
+    await cache.getPrInfo(forge as unknown as Forge, [{ PrNumber: 1, sha: 'ccc' }]);
+
+    expect(forge.getPrInfo).toHaveBeenCalledTimes(2);
+});
+
+test('Updated PRs are fetched again', async () => {
+    const forge = mockForge([2]);
+    const commits = [{ PrNumber: 1, sha: 'aaa' }, { PrNumber: 2, sha: 'bbb' }];
+
+    const cache = await PrCache.load(cacheDir);
+    await cache.getPrInfo(forge as unknown as Forge, commits);
+    await cache.save();
+
+    // the next run checks for updates once, however many times it looks PRs up
+    const newCache = await PrCache.load(cacheDir);
+    await newCache.getPrInfo(forge as unknown as Forge, commits);
+    await newCache.getPrInfo(forge as unknown as Forge, commits);
+
+    expect(forge.getPrsUpdatedSince).toHaveBeenCalledTimes(1);
+    expect(forge.getPrsUpdatedSince).toHaveBeenCalledWith(expect.any(Date), 500);
+    expect(forge.getPrInfo).toHaveBeenCalledTimes(2);
+    expect(forge.getPrInfo).toHaveBeenLastCalledWith([{ PrNumber: 2, sha: 'bbb' }]);
+});
+
+test('Cache emptied if too many PRs have been updated to list', async () => {
+    const forge = mockForge(null);
+    const commits = [{ PrNumber: 1, sha: 'aaa' }, { PrNumber: 2, sha: 'bbb' }];
+
+    const cache = await PrCache.load(cacheDir);
+    await cache.getPrInfo(forge as unknown as Forge, commits);
+    await cache.save();
+
+    const newCache = await PrCache.load(cacheDir);
+    await newCache.getPrInfo(forge as unknown as Forge, commits);
+    expect(forge.getPrInfo).toHaveBeenLastCalledWith(commits);
+});
+
+test('Cached PRs are used if checking for updates fails', async () => {
+    const forge = mockForge();
+    const commits = [{ PrNumber: 1, sha: 'aaa' }];
+
+    const cache = await PrCache.load(cacheDir);
+    await cache.getPrInfo(forge as unknown as Forge, commits);
+    await cache.save();
+    forge.getPrsUpdatedSince.mockRejectedValue(new Error("No network"));
+
+    const newCache = await PrCache.load(cacheDir);
+    expect((await newCache.getPrInfo(forge as unknown as Forge, commits)).length).toEqual(1);
+    expect(forge.getPrsUpdatedSince).toHaveBeenCalledTimes(1);
+    expect(forge.getPrInfo).toHaveBeenCalledTimes(1);
+});
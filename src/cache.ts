@@ -0,0 +1,148 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fsProm from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import log from 'loglevel';
+
+import { MergeCommit, PrInfo } from './changes';
+import { Forge } from './forge';
+
+const CACHE_VERSION = 1;
+// If more PRs than this have been updated since we last looked, eg. after a long time away, we
+// start the repo's cache afresh rather than page through them all
+const MAX_UPDATED_PRS = 500;
+
+interface CachedPr {
+    // The commit the PR was merged as, as seen in git
+    sha: string;
+    pr: PrInfo;
+}
+
+interface CachedRepo {
+    // When we last checked for updates to PRs in this repo, as an ISO date
+    lastSync: string;
+    prs: Record<string, CachedPr>;
+}
+
+interface CacheFile {
+    version: number;
+    repos: Record<string, CachedRepo>;
+}
+
+export function defaultCacheDir(): string {
+    const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+    return path.join(cacheHome, 'allchange');
+}
+
+// A cache of PR metadata on disk, so we don't have to fetch every PR from the forge
+// each time we're run. A PR is dropped from the cache whenever the forge says it's
+// been updated since we last looked, which we check once per repo each run.
+export class PrCache {
+    private dirty = false;
+    private synced = new Set<CachedRepo>();
+
+    static async load(dir = defaultCacheDir()): Promise<PrCache> {
+        const file = path.join(dir, 'prs.json');
+        let data: CacheFile;
+        try {
+            data = JSON.parse(await fsProm.readFile(file, 'utf8'));
+        } catch {
+            // no cache yet (or it's corrupt, in which case we may as well start again)
+        }
+        if (!data || data.version !== CACHE_VERSION) data = { version: CACHE_VERSION, repos: {} };
+
+        return new PrCache(file, data);
+    }
+
+    private constructor(private file: string, private data: CacheFile) {}
+
+    private getRepo(forge: Forge): CachedRepo {
+        const key = `${forge.repository.host}/${forge.repository.owner}/${forge.repository.repo}`;
+        if (this.data.repos[key] === undefined) {
+            this.data.repos[key] = { lastSync: null, prs: {} };
+        }
+        return this.data.repos[key];
+    }
+
+    private async invalidateUpdated(forge: Forge, cachedRepo: CachedRepo) {
+        if (this.synced.has(cachedRepo)) return;
+        this.synced.add(cachedRepo);
+
+        const syncStart = new Date();
+        if (cachedRepo.lastSync !== null) {
+            try {
+                const updated = await forge.getPrsUpdatedSince(new Date(cachedRepo.lastSync), MAX_UPDATED_PRS);
+                if (updated === null) {
+                    log.debug(`Over ${MAX_UPDATED_PRS} PRs updated since ${cachedRepo.lastSync}: emptying the cache`);
+                    cachedRepo.prs = {};
+                } else {
+                    log.debug(`${updated.length} PRs updated since ${cachedRepo.lastSync}`);
+                    for (const prNumber of updated) {
+                        delete cachedRepo.prs[prNumber];
+                    }
+                }
+            } catch (e) {
+                // The cache is most useful when the network isn't, so carry on without it
+                log.warn(`Couldn't check for updated PRs, cached PR info may be out of date: ${e.message}`);
+                return;
+            }
+        }
+        cachedRepo.lastSync = syncStart.toISOString();
+        this.dirty = true;
+    }
+
+    public async getPrInfo(forge: Forge, mergeCommits: MergeCommit[]): Promise<PrInfo[]> {
+        const cachedRepo = this.getRepo(forge);
+        await this.invalidateUpdated(forge, cachedRepo);
+
+        const prInfo: PrInfo[] = [];
+        const toFetch: MergeCommit[] = [];
+        for (const commit of mergeCommits) {
+            const cached = cachedRepo.prs[commit.PrNumber];
+            if (cached && (commit.sha === null || cached.sha === commit.sha)) {
+                prInfo.push(cached.pr);
+            } else {
+                toFetch.push(commit);
+            }
+        }
+        log.debug(`Found ${prInfo.length} PRs in cache, fetching ${toFetch.length}`);
+
+        if (toFetch.length > 0) {
+            const fetched = await forge.getPrInfo(toFetch);
+            for (const pr of fetched) {
+                const commit = toFetch.find(c => c.PrNumber === pr.number);
+                cachedRepo.prs[pr.number] = { sha: commit.sha ?? pr.merge_commit_sha, pr };
+                prInfo.push(pr);
+            }
+            this.dirty = true;
+        }
+
+        return prInfo;
+    }
+
+    public async save() {
+        if (!this.dirty) return;
+
+        await fsProm.mkdir(path.dirname(this.file), { recursive: true });
+        const tmpFile = this.file + '.tmp';
+        await fsProm.writeFile(tmpFile, JSON.stringify(this.data));
+        await fsProm.rename(tmpFile, this.file);
+        this.dirty = false;
+        log.debug(`Saved PR cache to ${this.file}`);
+    }
+}
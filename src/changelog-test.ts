@@ -0,0 +1,60 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { updateChangelogText } from './changelog';
+
+const entry = (version: string, text: string) => `Changes in [${version}](url) (2021-07-01)\n${text}\n\n`;
+
+const CHANGELOG = [
+    '# Changelog\n\n',
+    entry('1.2.0-rc.2', ' * Fly faster'),
+    entry('1.2.0-rc.1', ' * Fly'),
+    entry('1.1.0', ' * Hand-edited llamas'),
+    entry('1.0.0', ' * Llamas'),
+].join('');
+
+test('New entry replaces its prereleases', () => {
+    expect(updateChangelogText(CHANGELOG, entry('1.2.0', ' * Fly'), '1.2.0')).toEqual([
+        '# Changelog\n\n',
+        entry('1.2.0', ' * Fly'),
+        entry('1.1.0', ' * Hand-edited llamas'),
+        entry('1.0.0', ' * Llamas'),
+    ].join(''));
+});
+
+test('New entry goes in version order', () => {
+    expect(updateChangelogText(CHANGELOG, entry('1.0.1', ' * Fix'), '1.0.1')).toEqual([
+        '# Changelog\n\n',
+        entry('1.2.0-rc.2', ' * Fly faster'),
+        entry('1.2.0-rc.1', ' * Fly'),
+        entry('1.1.0', ' * Hand-edited llamas'),
+        entry('1.0.1', ' * Fix'),
+        entry('1.0.0', ' * Llamas'),
+    ].join(''));
+});
+
+test('Existing entry replaced unless kept', () => {
+    const newEntry = entry('1.1.0', ' * Llamas');
+    expect(updateChangelogText(CHANGELOG, newEntry, '1.1.0')).toContain(newEntry);
+    expect(updateChangelogText(CHANGELOG, newEntry, '1.1.0', { keepExisting: true })).toEqual(CHANGELOG);
+});
+
+test('First entry goes after the title', () => {
+    expect(updateChangelogText('# Changelog\n\n', entry('0.1.0', ' * Llamas'), '0.1.0'))
+        .toEqual('# Changelog\n\n' + entry('0.1.0', ' * Llamas'));
+    expect(updateChangelogText(CHANGELOG, entry('0.1.0', ' * Llamas'), '0.1.0'))
+        .toEqual(CHANGELOG + entry('0.1.0', ' * Llamas'));
+});
@@ -14,14 +14,14 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { ChangeType, IChange } from "./changes";
+import { ChangeTypeConfig, DEFAULT_CHANGE_TYPES, getChangeUrl, IChange } from "./changes";
 import { getChangeNotes, IProject, Project } from "./projects";
 import { formatIssue } from "./issue";
+import { unifiedDiff } from "./diff";
+import { mergeChangelogEntry } from "./merge";
 
 import semver, { SemVer } from 'semver';
-import fs from 'fs';
 import fsProm from 'fs/promises';
-import readline from 'readline';
 import path from 'path';
 import log from 'loglevel';
 
@@ -30,38 +30,110 @@ export interface IChangelogEntry {
     text: string;
 }
 
-export const securityFixHeader = '## \uD83D\uDD12 SECURITY FIXES';
-export const breakingChangeHeader = '## \uD83D\uDEA8 BREAKING CHANGES';
-export const deprecationsHeader = '## \uD83E\uDD96 Deprecations';
-export const featureChangeHeader = '## \u2728 Features';
-export const bugFixChangeHeader = '## \uD83D\uDC1B Bug Fixes';
-
-async function* readChangelog(project: Project): AsyncGenerator<IChangelogEntry> {
-    const fp = fs.createReadStream(path.join(project.dir, 'CHANGELOG.md'));
-    const rl = readline.createInterface(fp);
-
-    let version: string;
-    let fullText = '';
-    for await (const line of rl) {
-        const matches = /^Changes in \[([\w.-]+)]/.exec(line);
-        if (matches) {
-            if (version) {
-                yield {
-                    version,
-                    text: fullText,
-                };
-            }
-            version = 'v' + matches[1];
-            fullText = '';
-        }
-        if (version) fullText += line + "\n";
-    }
-    if (version) {
-        yield {
-            version,
-            text: fullText,
-        };
+export interface IChangelogSection {
+    // The name of the change type, or 'security' or 'breaking' for those sections
+    id: string;
+    title: string;
+    emoji?: string;
+    changes: IChange[];
+}
+
+// Someone outside the project to thank for their part in a version
+export interface ICredit {
+    // Their username, or null for a co-author whose username we don't know
+    login: string | null;
+    name: string;
+    // Whether it's their first contribution to the project
+    firstTime: boolean;
+}
+
+// Everything needed to render the changelog entry for a version, in whatever format
+export interface IChangelogContext {
+    // null if we're previewing the changes, rather than writing them for a version
+    version: string | null;
+    // The tag for the version, or null if there's no version
+    tag: string | null;
+    date: Date;
+    project: Project;
+    changeTypes: ChangeTypeConfig[];
+    // Changes with headlines, in the order their headlines should appear
+    highlights: IChange[];
+    // Only sections that have changes in them, in the order they should appear
+    sections: IChangelogSection[];
+    // Who to thank in the acknowledgements, if the project has them, sorted by name
+    credits: ICredit[];
+    // Patterns for who's never credited, in the acknowledgements or on their changes
+    excludedContributors: string[];
+}
+
+export type ChangelogRenderer = (context: IChangelogContext) => string;
+
+export const SECURITY_SECTION = { id: 'security', title: 'SECURITY FIXES', emoji: '\uD83D\uDD12' };
+export const BREAKING_SECTION = { id: 'breaking', title: 'BREAKING CHANGES', emoji: '\uD83D\uDEA8' };
+export const HIGHLIGHTS_SECTION = { id: 'highlights', title: 'Highlights', emoji: '\u2B50' };
+export const ACKNOWLEDGEMENTS_SECTION = { id: 'acknowledgements', title: 'Acknowledgements', emoji: '\uD83D\uDE4F' };
+
+const FIRST_TIME_ASSOCIATIONS = ['FIRST_TIME_CONTRIBUTOR', 'FIRST_TIMER'];
+
+function markdownHeader(title: string, emoji?: string): string {
+    if (emoji) return `## ${emoji} ${title}`;
+    return `## ${title}`;
+}
+
+export const securityFixHeader = markdownHeader(SECURITY_SECTION.title, SECURITY_SECTION.emoji);
+export const breakingChangeHeader = markdownHeader(BREAKING_SECTION.title, BREAKING_SECTION.emoji);
+export const highlightsHeader = markdownHeader(HIGHLIGHTS_SECTION.title, HIGHLIGHTS_SECTION.emoji);
+export const acknowledgementsHeader = markdownHeader(ACKNOWLEDGEMENTS_SECTION.title, ACKNOWLEDGEMENTS_SECTION.emoji);
+
+export function changeTypeHeader(changeType: ChangeTypeConfig): string {
+    return markdownHeader(changeType.header, changeType.emoji);
+}
+
+// The version in the heading of a version's entry, and whatever follows the version and its
+// link, which should be the date. Templates may not use our heading, so also accept one that's
+// a Markdown heading starting with the version in brackets, eg. "## [1.2.3] - 2021-07-01".
+export function parseVersionHeading(line: string): { version: string, rest: string } | null {
+    const matches = /^Changes in \[([\w.-]+)](?:\([^)]*\))?(.*)$/.exec(line) ||
+        /^#+ \[(\d[\w.-]*)](?:\([^)]*\))?(.*)$/.exec(line);
+    if (!matches) return null;
+    return { version: matches[1], rest: matches[2].trim() };
+}
+
+// The date after the version in its heading, eg. "(2021-07-01)" or "- 2021-07-01", given what
+// comes after the version
+export function parseHeadingDate(rest: string): string | null {
+    const matches = /^\((.*)\)$/.exec(rest) || /^-\s*(.*)$/.exec(rest);
+    return matches ? matches[1].trim() : null;
+}
+
+// A section's title without any emoji before it
+export function withoutEmoji(title: string): string {
+    return title.replace(/^[^\p{L}\p{N}]+/u, '').trim();
+}
+
+function changelogLines(text: string): string[] {
+    const lines = text.split(/\r?\n/);
+    // the newline at the end of the last line doesn't start another
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+// Splits the text of a changelog into the entries for each version, leaving out anything before the first
+export function splitChangelog(text: string): IChangelogEntry[] {
+    const entries: IChangelogEntry[] = [];
+    for (const line of changelogLines(text)) {
+        const heading = parseVersionHeading(line);
+        if (heading) entries.push({ version: 'v' + heading.version, text: '' });
+        if (entries.length > 0) entries[entries.length - 1].text += line + "\n";
     }
+    return entries;
+}
+
+// Whatever comes before the first entry in a changelog, such as its title
+function changelogPreamble(text: string): string {
+    const lines = changelogLines(text);
+    const firstEntry = lines.findIndex(line => parseVersionHeading(line));
+    return lines.slice(0, firstEntry === -1 ? lines.length : firstEntry).map(line => line + "\n").join('');
 }
 
 // A really simple markdown sanitiser to prevent entries where someone's
@@ -107,7 +179,7 @@ function sanitiseMarkdown(text: string): string {
     return text;
 }
 
-function engJoin(things: string[]): string {
+export function engJoin(things: string[]): string {
     if (things.length === 1) return things[0];
 
     const firstLot = things.slice(0, things.length - 2);
@@ -115,95 +187,250 @@ function engJoin(things: string[]): string {
 
     let result = '';
     if (firstLot.length) {
-        result = firstLot.join(', ') + ' ';
+        result = firstLot.join(', ') + ', ';
     }
     result += lastTwo.join(' and ');
 
     return result;
 }
 
-export function makeChangeEntry(change: IChange, forProject: IProject): string {
-    let line = '';
+// The text and target of the link back to where a change came from, where the target is null if
+// it has nowhere to go
+export function changeLink(change: IChange): { text: string, url: string | null } {
+    if (change.pr) {
+        return { text: `#${change.pr.number}`, url: getChangeUrl(change) };
+    } else {
+        return { text: change.commit.sha.slice(0, 7), url: getChangeUrl(change) };
+    }
+}
+
+// Where to read about a vulnerability, given its CVE or GHSA identifier
+export function advisoryUrl(id: string): string {
+    if (id.startsWith('CVE-')) return `https://www.cve.org/CVERecord?id=${id}`;
+    return `https://github.com/advisories/${id}`;
+}
+
+// The username of whoever made the change, if they're not part of the project
+export function externalContributor(change: IChange, exclude: string[] = []): string | null {
+    if (
+        change.pr && !['MEMBER', 'OWNER'].includes(change.pr.author_association) &&
+        !isExcluded(change.pr.user.login, exclude)
+    ) {
+        return change.pr.user.login;
+    }
+    return null;
+}
+
+// Notes can be several paragraphs of Markdown: the first goes on the change's bullet point, along with
+// its link, and the rest go under it
+export function splitNotes(notes: string): { summary: string, details: string | null } {
+    const [summary, ...details] = splitParagraphs(notes);
+    return { summary: summary ?? '', details: details.length > 0 ? details.join("\n\n") : null };
+}
 
-    line += ` * ${sanitiseMarkdown(getChangeNotes(change, forProject.name))}`;
-    line += ` ([\\#${change.pr.number}](${change.pr.html_url})).`;
+// Splits Markdown into its paragraphs, keeping each fenced code block in one piece
+export function splitParagraphs(text: string): string[] {
+    const paragraphs: string[][] = [[]];
+    let fence: string = null;
+    for (const line of text.split("\n")) {
+        const trimmed = line.trim();
+        const fenceMatches = trimmed.match(/^(`{3,}|~{3,})/);
+        if (fence === null && fenceMatches) {
+            fence = fenceMatches[1];
+        } else if (fence !== null && trimmed.startsWith(fence) && trimmed === fence[0].repeat(trimmed.length)) {
+            fence = null;
+        } else if (fence === null && trimmed === '') {
+            if (paragraphs[paragraphs.length - 1].length > 0) paragraphs.push([]);
+            continue;
+        }
+        paragraphs[paragraphs.length - 1].push(line);
+    }
+    return paragraphs.filter(p => p.length > 0).map(p => p.join("\n"));
+}
+
+export function indentLines(text: string, indent: string): string {
+    return text.split("\n").map(line => line.trim() === '' ? '' : indent + line).join("\n");
+}
+
+export function makeChangeEntry(
+    change: IChange, forProject: IProject, changeTypes = DEFAULT_CHANGE_TYPES, excludedContributors: string[] = [],
+): string {
+    let line = '';
 
-    if (change.fixes.length > 0) {
-        const fixesString = engJoin(change.fixes.map(c => formatIssue(c, forProject.owner, forProject.repo)));
-        line += ` Fixes ${fixesString}.`;
+    const link = changeLink(change);
+    const { summary, details } = splitNotes(getChangeNotes(change, forProject.name, changeTypes));
+    line += ` * ${sanitiseMarkdown(summary).replace(/\n/g, "\n   ")}`;
+    line += link.url ? ` ([${link.text.replace('#', '\\#')}](${link.url})).` : ` (${link.text}).`;
+
+    const fixes = [
+        ...change.advisories.map(id => `[${id}](${advisoryUrl(id)})`),
+        ...change.fixes.map(c => formatIssue(c, forProject.owner, forProject.repo)),
+    ];
+    if (fixes.length > 0) {
+        line += ` Fixes ${engJoin(fixes)}.`;
     }
 
-    if (!['MEMBER', 'OWNER'].includes(change.pr.author_association)) {
-        line += ` Contributed by @${change.pr.user.login}.`;
+    const contributor = externalContributor(change, excludedContributors);
+    if (contributor) {
+        line += ` Contributed by @${contributor}.`;
     }
 
+    // indented to line up with the notes, so Markdown keeps it in the list item
+    if (details) line += "\n\n" + indentLines(details, '   ');
+
     return line;
 }
 
-function makeChangelogEntry(changes: IChange[], version: string | null, forProject: Project): string {
-    const formattedVersion = version ? semver.parse(version).format() : null; // easy way of removing the leading 'v'
-    const now = new Date();
+// A headline as a list item, with any lines after the first indented to keep them in the item
+export function makeHighlightEntry(change: IChange): string {
+    return ' * ' + change.headline.split("\n").join("\n   ");
+}
 
-    const lines: string[] = [];
+// The changes whose headlines go in the highlights: those given an order first, lowest first, then
+// the rest in the order they came in, ie. the project's own before its subprojects'
+export function getHighlights(changes: IChange[]): IChange[] {
+    const order = (c: IChange) => c.headlineOrder ?? Infinity;
+    return changes
+        .filter(c => c.shouldInclude && c.headline)
+        .sort((a, b) => (order(a) - order(b)) || 0);
+}
 
-    if (version !== null) {
-        const padTwo = (n: number) => String(n).padStart(2, '0');
-        lines.push(`Changes in ` +
-            `[${formattedVersion}]` +
-            `(https://github.com/${forProject.owner}/${forProject.repo}/releases/tag/v${formattedVersion}) ` +
-            `(${now.getFullYear()}-${padTwo(now.getMonth()+1)}-${padTwo(now.getDate())})`,
-        );
-        lines.push('='.repeat(lines[0].length));
-        lines.push('');
+export function isFirstContribution(change: IChange): boolean {
+    return Boolean(change.pr) && FIRST_TIME_ASSOCIATIONS.includes(change.pr.author_association);
+}
+
+// Whether a username or name matches any of the patterns, where * matches anything
+function isExcluded(name: string, patterns: string[]): boolean {
+    return patterns.some(pattern => {
+        const regexp = pattern.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        return new RegExp(`^${regexp}$`, 'i').test(name);
+    });
+}
+
+// The external contributors to the included changes, along with anyone who co-authored them that
+// isn't part of the project. We only know who's part of the project from the authors of PRs, so
+// changes taken from commits don't credit anyone.
+export function getCredits(changes: IChange[], exclude: string[] = []): ICredit[] {
+    const included = changes.filter(c => c.shouldInclude && c.pr);
+    const members = new Set(included.filter(c => !externalContributor(c)).map(c => c.pr.user.login.toLowerCase()));
+
+    const credits = new Map<string, ICredit>();
+    const addCredit = (credit: ICredit) => {
+        if (isExcluded(credit.login ?? credit.name, exclude)) return;
+        const key = (credit.login ?? credit.name).toLowerCase();
+        const existing = credits.get(key);
+        if (existing) {
+            existing.firstTime = existing.firstTime || credit.firstTime;
+        } else {
+            credits.set(key, credit);
+        }
+    };
+
+    for (const change of included) {
+        const contributor = externalContributor(change);
+        if (contributor) addCredit({ login: contributor, name: contributor, firstTime: isFirstContribution(change) });
+        for (const coAuthor of change.coAuthors ?? []) {
+            if (coAuthor.login && members.has(coAuthor.login.toLowerCase())) continue;
+            addCredit({ ...coAuthor, firstTime: false });
+        }
     }
 
-    const shouldInclude = changes.filter(c => c.shouldInclude);
-    const breaking = shouldInclude.filter(c => c.breaking);
-    const security = shouldInclude.filter(c => c.security);
+    const sortKey = (c: ICredit) => (c.login ?? c.name).toLowerCase();
+    return [...credits.values()].sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+}
+
+// How we refer to someone: by their username if we know it, so the forge links it to them
+export function creditName(credit: ICredit): string {
+    return credit.login ? `@${credit.login}` : credit.name;
+}
 
+export function makeCreditEntry(credit: ICredit): string {
+    return ` * ${sanitiseMarkdown(creditName(credit))}` + (credit.firstTime ? ' (first contribution)' : '');
+}
+
+export function groupChanges(changes: IChange[], changeTypes: ChangeTypeConfig[]): IChangelogSection[] {
+    const sections: IChangelogSection[] = [];
+    const addSection = (section: Omit<IChangelogSection, 'changes'>, sectionChanges: IChange[]) => {
+        if (sectionChanges.length === 0) return;
+        sections.push({ ...section, changes: sectionChanges });
+    };
+
+    const shouldInclude = changes.filter(c => c.shouldInclude);
     const others = shouldInclude.filter(c => !c.breaking && !c.security);
-    const deprecations = others.filter(c => c.changeType == ChangeType.DEPRECATION);
-    const features = others.filter(c => c.changeType == ChangeType.FEATURE);
-    const bugfixes = others.filter(c => c.changeType == ChangeType.BUGFIX);
-
-    if (security.length > 0) {
-        lines.push(securityFixHeader);
-        for (const change of security) {
-            lines.push(makeChangeEntry(change, forProject));
-        }
-        lines.push('');
+
+    addSection(SECURITY_SECTION, shouldInclude.filter(c => c.security));
+    addSection(BREAKING_SECTION, shouldInclude.filter(c => c.breaking));
+
+    for (const changeType of changeTypes.filter(t => t.changelog)) {
+        addSection(
+            { id: changeType.name, title: changeType.header, emoji: changeType.emoji },
+            others.filter(c => c.changeType === changeType.name),
+        );
     }
 
-    if (breaking.length > 0) {
-        lines.push(breakingChangeHeader);
-        for (const change of breaking) {
-            lines.push(makeChangeEntry(change, forProject));
-        }
+    return sections;
+}
+
+export async function makeChangelogContext(
+    project: Project, changes: IChange[], version: string | null,
+): Promise<IChangelogContext> {
+    const releaseConfig = await project.getReleaseCfg(project.dir);
+    // easy way of removing the leading 'v'
+    const formattedVersion = version ? semver.parse(version).format() : null;
+
+    return {
+        version: formattedVersion,
+        tag: formattedVersion === null ? null : releaseConfig.versioning.tagPrefix + formattedVersion,
+        date: new Date(),
+        project,
+        changeTypes: releaseConfig.changeTypes,
+        highlights: getHighlights(changes),
+        sections: groupChanges(changes, releaseConfig.changeTypes),
+        credits: releaseConfig.contributors.acknowledge ? getCredits(changes, releaseConfig.contributors.exclude) : [],
+        excludedContributors: releaseConfig.contributors.exclude,
+    };
+}
+
+export function formatDate(date: Date): string {
+    const padTwo = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${padTwo(date.getMonth()+1)}-${padTwo(date.getDate())}`;
+}
+
+// The URL of the version's release, or null if the project has no forge to release it on
+export function getReleaseUrl(context: IChangelogContext): string | null {
+    return context.project.forge ? context.project.forge.releaseUrl(context.tag) : null;
+}
+
+export function renderMarkdown(context: IChangelogContext): string {
+    const lines: string[] = [];
+
+    if (context.version !== null) {
+        const releaseUrl = getReleaseUrl(context);
+        lines.push(`Changes in ` +
+            (releaseUrl ? `[${context.version}](${releaseUrl}) ` : `${context.version} `) +
+            `(${formatDate(context.date)})`,
+        );
+        lines.push('='.repeat(lines[0].length));
         lines.push('');
     }
 
-    if (deprecations.length > 0) {
-        lines.push(deprecationsHeader);
-        for (const change of deprecations) {
-            lines.push(makeChangeEntry(change, forProject));
-        }
+    if (context.highlights.length > 0) {
+        lines.push(highlightsHeader);
+        lines.push(...context.highlights.map(makeHighlightEntry));
         lines.push('');
     }
 
-    if (features.length > 0) {
-        lines.push(featureChangeHeader);
-        for (const change of features) {
-            lines.push(makeChangeEntry(change, forProject));
+    for (const section of context.sections) {
+        lines.push(markdownHeader(section.title, section.emoji));
+        for (const change of section.changes) {
+            lines.push(makeChangeEntry(change, context.project, context.changeTypes, context.excludedContributors));
         }
         lines.push('');
     }
 
-    if (bugfixes.length > 0) {
-        lines.push(bugFixChangeHeader);
-
-        for (const change of bugfixes) {
-            lines.push(makeChangeEntry(change, forProject));
-        }
+    if (context.credits.length > 0) {
+        lines.push(acknowledgementsHeader);
+        lines.push(...context.credits.map(makeCreditEntry));
         lines.push('');
     }
 
@@ -212,7 +439,7 @@ function makeChangelogEntry(changes: IChange[], version: string | null, forProje
     return lines.join("\n");
 }
 
-function isPrereleaseFor(version: SemVer, forVersion: SemVer): boolean {
+export function isPrereleaseFor(version: SemVer, forVersion: SemVer): boolean {
     return (
         version.prerelease.length > 0 &&
         forVersion.prerelease.length == 0 &&
@@ -220,32 +447,69 @@ function isPrereleaseFor(version: SemVer, forVersion: SemVer): boolean {
     );
 }
 
-export async function previewChangelog(project: Project, changes: IChange[]) {
-    console.log(makeChangelogEntry(changes, null, project));
+export async function renderChangelogEntry(
+    project: Project, changes: IChange[], version: string | null, render: ChangelogRenderer = renderMarkdown,
+): Promise<string> {
+    return render(await makeChangelogContext(project, changes, version));
 }
 
-export async function updateChangelog(project: Project, changes: IChange[], forVersion: string) {
-    const forReleaseSemVer = semver.parse(forVersion);
+export async function previewChangelog(project: Project, changes: IChange[], render?: ChangelogRenderer) {
+    console.log(await renderChangelogEntry(project, changes, null, render));
+}
 
-    const changelogFile = path.join(project.dir, 'CHANGELOG.md');
-    const tmpFile = path.join(project.dir, 'CHANGELOG.tmp');
+export interface IChangelogUpdateOptions {
+    // Keep the version's existing entry as it is, eg. because it's been edited by hand
+    keepExisting?: boolean;
+    // Keep the text of the changes in the version's existing entry, or those for its prereleases, that
+    // are still in it, so any edits made by hand since are kept (see mergeChangelogEntry)
+    merge?: boolean;
+}
+
+// The changelog with the new entry for the version written into it, in version order. The new entry
+// replaces the version's existing entry, if it has one, and the entries for its prereleases. Anything
+// before the first entry stays.
+export function updateChangelogText(
+    text: string, newEntry: string, forVersion: string, options: IChangelogUpdateOptions = {},
+): string {
+    const forReleaseSemVer = semver.parse(forVersion);
+    const entries = splitChangelog(text);
+
+    const existing = entries.find(entry => forReleaseSemVer.compare(entry.version) === 0);
+    if (existing && options.keepExisting) {
+        log.debug(`Keeping the existing entry for ${existing.version}`);
+        newEntry = existing.text;
+    } else if (options.merge) {
+        const previous = entries.filter(entry => (
+            entry === existing || isPrereleaseFor(semver.parse(entry.version), forReleaseSemVer)
+        ));
+        const merged = mergeChangelogEntry(newEntry, previous.map(entry => entry.text));
+        for (const url of merged.removed) {
+            log.warn(
+                `${url} was in the changelog for ${forVersion} but isn't in the release any more, ` +
+                `so it's been left out`,
+            );
+        }
+        newEntry = merged.text;
+    }
 
-    const outHandle = await fsProm.open(tmpFile, 'w');
+    let updated = changelogPreamble(text);
     let changeWritten = false;
 
-    for await (const entry of readChangelog(project)) {
+    for (const entry of entries) {
         if (forReleaseSemVer.compare(entry.version) === 0) {
             log.debug(`Found ${entry.version} which is exactly the version we should be updating`);
             // This is the exact version we should be updating: replace it
-            await outHandle.write(makeChangelogEntry(changes, forVersion, project));
-            changeWritten = true;
+            if (!changeWritten) {
+                updated += newEntry;
+                changeWritten = true;
+            }
         } else if (isPrereleaseFor(semver.parse(entry.version), forReleaseSemVer)) {
             log.debug(`Found ${entry.version} which is a prerelease of the version we should be updating`);
             // This is a prerelease of the version we're trying to write, so remove the
             // prerelease entry from the changelog and replace it with the entry we're
             // writing, if we haven't already written it
             if (!changeWritten) {
-                await outHandle.write(makeChangelogEntry(changes, forVersion, project));
+                updated += newEntry;
                 changeWritten = true;
             }
         } else if (forReleaseSemVer.compare(entry.version) === 1) {
@@ -253,24 +517,52 @@ export async function updateChangelog(project: Project, changes: IChange[], forV
             // our changeset, we need to do it now.
             if (!changeWritten) {
                 log.debug(`Writing change before older version ${entry.version}`);
-                await outHandle.write(makeChangelogEntry(changes, forVersion, project));
+                updated += newEntry;
                 changeWritten = true;
             }
             // and then write the one we found too
-            await outHandle.write(entry.text);
+            updated += entry.text;
         } else {
             log.debug(`Found ${entry.version} which is newer than the version we should be updating`);
-            await outHandle.write(entry.text);
+            updated += entry.text;
         }
     }
 
-    await outHandle.close();
+    // every entry is newer, or there aren't any yet
+    if (!changeWritten) updated += newEntry;
 
-    if (!changeWritten) {
-        throw new Error("I failed to write the change... that shouldn't happen");
-    }
+    return updated;
+}
 
+// The changelog file as it is, and as it would be with the entry for the version updated
+async function makeUpdatedChangelog(
+    project: Project, changes: IChange[], forVersion: string, render?: ChangelogRenderer,
+    options: IChangelogUpdateOptions = {},
+): Promise<{ before: string, after: string }> {
+    const before = await fsProm.readFile(path.join(project.dir, 'CHANGELOG.md'), 'utf8');
+    const newEntry = await renderChangelogEntry(project, changes, forVersion, render);
+    return { before, after: updateChangelogText(before, newEntry, forVersion, options) };
+}
+
+export async function updateChangelog(
+    project: Project, changes: IChange[], forVersion: string, render?: ChangelogRenderer,
+    options: IChangelogUpdateOptions = {},
+) {
+    const { after } = await makeUpdatedChangelog(project, changes, forVersion, render, options);
+
+    const changelogFile = path.join(project.dir, 'CHANGELOG.md');
+    const tmpFile = path.join(project.dir, 'CHANGELOG.tmp');
+    await fsProm.writeFile(tmpFile, after);
     await fsProm.unlink(changelogFile);
     await fsProm.rename(tmpFile, changelogFile);
     log.debug(`Wrote to ${changelogFile}`);
 }
+
+// What updateChangelog would change, as a unified diff, without changing anything
+export async function diffChangelog(
+    project: Project, changes: IChange[], forVersion: string, render?: ChangelogRenderer,
+    options: IChangelogUpdateOptions = {},
+): Promise<string> {
+    const { before, after } = await makeUpdatedChangelog(project, changes, forVersion, render, options);
+    return unifiedDiff(before, after, 'a/CHANGELOG.md', 'b/CHANGELOG.md');
+}
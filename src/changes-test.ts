@@ -14,7 +14,22 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { changeFromPrInfo, PrInfo, ChangeType } from './changes';
+import { Octokit } from '@octokit/rest';
+
+import {
+    changeFromAdvisoryMerge,
+    changeFromPrInfo,
+    changeFromCommit,
+    CommitInfo,
+    findAdvisoryIds,
+    getChangeUrl,
+    getPrInfo,
+    getPrInfoByRest,
+    parseCoAuthor,
+    PrInfo,
+    ChangeType,
+    ChangeTypeConfig,
+} from './changes';
 
 const FIX_MAGIC_WORDS = [
     'close',
@@ -46,6 +61,16 @@ function mockPr(): PrInfo {
     } as PrInfo;
 }
 
+function mockCommit(): CommitInfo {
+    return {
+        sha: '0123456789abcdef0123456789abcdef01234567',
+        author: 'Bert',
+        subject: '',
+        body: '',
+        trailers: {},
+    };
+}
+
 test('Notes defaults to PR title', () => {
     const pr = mockPr();
     pr.title = 'fixes all problems';
@@ -93,6 +118,142 @@ test('Headline picked up from PR body (capitalised)', () => {
     expect(changeFromPrInfo(pr).headline).toEqual('this does a thing');
 });
 
+test('Notes can contain colons', () => {
+    const pr = mockPr();
+    pr.body = "Notes: Llamas: now with more fluff";
+
+    expect(changeFromPrInfo(pr).notes).toEqual('Llamas: now with more fluff');
+});
+
+test('Notes picked up from changelog fence', () => {
+    const pr = mockPr();
+    pr.title = 'Llama changes';
+    pr.body = [
+        "Notes: ignored in favour of the fence",
+        "```changelog",
+        "Llamas now have names.",
+        "",
+        "    llama.name = 'Bert';",
+        "```",
+        "",
+        "~~~~changelog element-web",
+        "Llamas have names in the UI",
+        "~~~~",
+        "Fixes #12",
+    ].join("\r\n");
+
+    const change = changeFromPrInfo(pr);
+    expect(change.notes).toEqual("Llamas now have names.\n\n    llama.name = 'Bert';");
+    expect(change.notesByProject).toEqual({ 'element-web': 'Llamas have names in the UI' });
+    expect(change.fixes.map(f => f.number)).toEqual([12]);
+});
+
+test('Notes picked up from changelog section', () => {
+    const pr = mockPr();
+    pr.title = 'Llama changes';
+    pr.body = [
+        "## Changelog",
+        "",
+        "Llamas now have names:",
+        "```",
+        "# not a heading",
+        "```",
+        "### More about names",
+        "Names can't be changed.",
+        "",
+        "## element-web changelog",
+        "none",
+        "## Other stuff",
+        "Notes: this still counts for element-desktop? No",
+        "element-desktop notes: Desktop llamas",
+    ].join("\n");
+
+    const change = changeFromPrInfo(pr);
+    expect(change.notes).toEqual([
+        "Llamas now have names:",
+        "```",
+        "# not a heading",
+        "```",
+        "### More about names",
+        "Names can't be changed.",
+    ].join("\n"));
+    expect(change.notesByProject).toEqual({ 'element-web': null, 'element-desktop': 'Desktop llamas' });
+});
+
+test('Empty changelog section is ignored', () => {
+    const pr = mockPr();
+    pr.title = 'Llama changes';
+    pr.body = "### Changelog\n\n### Checklist\n * [x] Tests";
+
+    expect(changeFromPrInfo(pr).notes).toEqual('Llama changes');
+});
+
+test('Migration picked up from PR body', () => {
+    const pr = mockPr();
+    pr.body = [
+        "Migration: Call `llama.fly()`",
+        "instead of `llama.jump()`.",
+        "Notes: Llamas fly rather than jump",
+    ].join("\n");
+    expect(changeFromPrInfo(pr).migration).toEqual("Call `llama.fly()`\ninstead of `llama.jump()`.");
+    expect(changeFromPrInfo(pr).notes).toEqual('Llamas fly rather than jump');
+    expect(changeFromPrInfo(mockPr()).migration).toEqual(null);
+
+    pr.body = [
+        "## Migration",
+        "Call `llama.fly()`:",
+        "",
+        "    llama.fly();",
+        "",
+        "## Changelog",
+        "Llamas fly rather than jump",
+    ].join("\n");
+    expect(changeFromPrInfo(pr).migration).toEqual("Call `llama.fly()`:\n\n    llama.fly();");
+    expect(changeFromPrInfo(pr).notes).toEqual('Llamas fly rather than jump');
+
+    pr.body = "```migration\nCall `llama.fly()`.\n```";
+    expect(changeFromPrInfo(pr).migration).toEqual("Call `llama.fly()`.");
+});
+
+test('Migration stops at the issues the PR fixes', () => {
+    const pr = mockPr();
+    pr.body = "Migration: Call `llama.fly()`\nCloses #77";
+
+    const change = changeFromPrInfo(pr);
+    expect(change.migration).toEqual('Call `llama.fly()`');
+    expect(change.fixes).toEqual([{ owner: 'thingtransformer', repo: 'bert', number: 77 }]);
+});
+
+test('Headline carries on until a blank line', () => {
+    const pr = mockPr();
+    pr.body = [
+        "Makes llamas fly",
+        "",
+        "Headlines:",
+        "Llamas can fly!",
+        "They fly at up to 20mph.",
+        "Notes: Llamas can fly",
+        "Headline order: 2",
+        "Headlines: So can alpacas.",
+        "",
+        "More description",
+    ].join("\r\n");
+
+    const change = changeFromPrInfo(pr);
+    expect(change.headline).toEqual("Llamas can fly!\nThey fly at up to 20mph.\nSo can alpacas.");
+    expect(change.headlineOrder).toEqual(2);
+    expect(change.notes).toEqual('Llamas can fly');
+});
+
+test('Headline stops at the issues the PR fixes and other trailers', () => {
+    const pr = mockPr();
+    pr.body = "Headline: Llamas can fly\nFixes #123\nType: feature";
+
+    const change = changeFromPrInfo(pr);
+    expect(change.headline).toEqual('Llamas can fly');
+    expect(change.fixes).toEqual([{ owner: 'thingtransformer', repo: 'bert', number: 123 }]);
+});
+
 test('Type picked up from labels', () => {
     const pr = mockPr();
 
@@ -112,6 +273,29 @@ test('Type picked up from labels', () => {
     expect(changeFromPrInfo(pr).changeType).toEqual(ChangeType.TASK);
 });
 
+test('Type picked up from configured labels', () => {
+    const changeTypes: ChangeTypeConfig[] = [
+        { name: 'feature', labels: ['type: feature'], header: 'Features', changelog: true, bump: 'minor' },
+        { name: 'bug', labels: ['kind/bug', 'regression'], header: 'Fixes', changelog: true, bump: 'patch' },
+    ];
+    const pr = mockPr();
+
+    pr.labels = [
+        { name: 'type: feature' },
+    ];
+    expect(changeFromPrInfo(pr, changeTypes).changeType).toEqual('feature');
+
+    pr.labels = [
+        { name: 'regression' },
+    ];
+    expect(changeFromPrInfo(pr, changeTypes).changeType).toEqual('bug');
+
+    pr.labels = [
+        { name: 'T-Enhancement' },
+    ];
+    expect(changeFromPrInfo(pr, changeTypes).changeType).toEqual(null);
+});
+
 test('Breaking change label marks as breaking', () => {
     const pr = mockPr();
     pr.labels = [
@@ -127,6 +311,51 @@ test('Breaking defaults to false', () => {
     expect(changeFromPrInfo(pr).breaking).toEqual(false);
 });
 
+test('Security label marks as a security fix', () => {
+    const pr = mockPr();
+    expect(changeFromPrInfo(pr).security).toEqual(false);
+
+    pr.labels = [
+        { name: 'X-Security' },
+    ];
+    expect(changeFromPrInfo(pr).security).toEqual(true);
+    expect(changeFromPrInfo(pr).advisories).toEqual([]);
+});
+
+test('Advisories mentioned in PR only count for security fixes', () => {
+    const pr = mockPr();
+    pr.title = 'Fix XSS in llama names (GHSA-ABCD-2345-wxyz)';
+    pr.body = [
+        "Fixes CVE-2021-12345",
+        "<!-- not CVE-2021-99999 -->",
+    ].join("\n");
+    expect(changeFromPrInfo(pr).security).toEqual(false);
+    expect(changeFromPrInfo(pr).advisories).toEqual([]);
+
+    pr.body += "\nSecurity: yes";
+    const change = changeFromPrInfo(pr);
+    expect(change.security).toEqual(true);
+    expect(change.advisories).toEqual(['CVE-2021-12345', 'GHSA-abcd-2345-wxyz']);
+});
+
+test('Upstream advisories in a dependency update are not a security fix', () => {
+    const pr = mockPr();
+    pr.title = 'Bump lodash from 4.17.20 to 4.17.21';
+    pr.labels = [{ name: 'T-Task' }];
+    pr.body = "Release notes\n\n> Fixes CVE-2021-23337";
+
+    const change = changeFromPrInfo(pr);
+    expect(change.security).toEqual(false);
+    expect(change.advisories).toEqual([]);
+});
+
+test('Advisory identifiers found and deduplicated', () => {
+    expect(findAdvisoryIds('cve-2021-1234, GHSA-abcd-efgh-jkmp and CVE-2021-1234')).toEqual([
+        'CVE-2021-1234', 'GHSA-abcd-efgh-jkmp',
+    ]);
+    expect(findAdvisoryIds('CVE-21-1 and GHSA-abc')).toEqual([]);
+});
+
 test('Project notes picked up from PR body', () => {
     const pr = mockPr();
     pr.body = [
@@ -263,3 +492,262 @@ test('Changelog preview filtered out', () => {
     expect(change.fixes.length).toEqual(1);
     expect(change.fixes[0].number).toEqual(123);
 });
+
+test('Conventional Commit title ignored unless enabled', () => {
+    const pr = mockPr();
+    pr.title = 'feat(ui)!: add a button';
+
+    const change = changeFromPrInfo(pr);
+    expect(change.changeType).toEqual(null);
+    expect(change.notes).toEqual('feat(ui)!: add a button');
+    expect(change.breaking).toEqual(false);
+});
+
+test('Conventional Commit title gives type, scope and notes', () => {
+    const pr = mockPr();
+    pr.title = 'feat(ui): add a button';
+
+    const change = changeFromPrInfo(pr, undefined, true);
+    expect(change.changeType).toEqual(ChangeType.FEATURE);
+    expect(change.scope).toEqual('ui');
+    expect(change.notes).toEqual('add a button');
+    expect(change.breaking).toEqual(false);
+
+    pr.title = 'chore: tidy up';
+    expect(changeFromPrInfo(pr, undefined, true).changeType).toEqual(ChangeType.TASK);
+    expect(changeFromPrInfo(pr, undefined, true).scope).toEqual(null);
+});
+
+test('Conventional Commit breaking changes', () => {
+    const pr = mockPr();
+    pr.title = 'fix!: remove the old API';
+    expect(changeFromPrInfo(pr, undefined, true).breaking).toEqual(true);
+
+    pr.title = 'fix: remove the old API';
+    pr.body = [
+        "Does a thing",
+        "",
+        "BREAKING CHANGE: the old API is gone",
+    ].join("\n");
+    expect(changeFromPrInfo(pr, undefined, true).breaking).toEqual(true);
+});
+
+test('Labels take precedence over Conventional Commit type', () => {
+    const pr = mockPr();
+    pr.title = 'feat: add a button';
+    pr.labels = [
+        { name: 'T-Defect' },
+    ];
+
+    expect(changeFromPrInfo(pr, undefined, true).changeType).toEqual(ChangeType.BUGFIX);
+});
+
+test('Notes line overrides Conventional Commit description', () => {
+    const pr = mockPr();
+    pr.title = 'feat: add a button';
+    pr.body = "Notes: Add a shiny new button";
+
+    expect(changeFromPrInfo(pr, undefined, true).notes).toEqual('Add a shiny new button');
+});
+
+test('Backports', () => {
+    const pr = mockPr();
+    pr.number = 1235;
+    expect(changeFromPrInfo(pr).backportOf).toEqual(null);
+
+    pr.title = '[Backport release-v1.9] Fix the frobnicator';
+    pr.body = 'Backport 8f3c2a1 from #1234.';
+    expect(changeFromPrInfo(pr).backportOf).toEqual(1234);
+
+    pr.title = 'Fix the frobnicator';
+    pr.body = 'Cherry-picked from #1234\n\nFixes #99';
+    expect(changeFromPrInfo(pr).backportOf).toEqual(1234);
+
+    pr.body = 'Fixes #99';
+    expect(changeFromPrInfo(pr).backportOf).toEqual(null);
+
+    pr.body = 'Cherry-picks for the release branch are tracked in #42';
+    expect(changeFromPrInfo(pr).backportOf).toEqual(null);
+    pr.body = 'Backporting this would need #42 as well';
+    expect(changeFromPrInfo(pr).backportOf).toEqual(null);
+
+    pr.title = 'Backport of #1234 to release-v1.9';
+    expect(changeFromPrInfo(pr).backportOf).toEqual(1234);
+});
+
+test('Commit change defaults to subject with no type', () => {
+    const commit = mockCommit();
+    commit.subject = 'Make things better';
+
+    const change = changeFromCommit(commit, 'bert', 'llamalist');
+    expect(change.pr).toEqual(null);
+    expect(change.notes).toEqual('Make things better');
+    expect(change.changeType).toEqual(null);
+
+    // the project gives the commit its URL, from wherever it's hosted
+    commit.url = 'https://github.com/bert/llamalist/commit/0123456789abcdef0123456789abcdef01234567';
+    expect(getChangeUrl(changeFromCommit(commit, 'bert', 'llamalist'))).toEqual(
+        'https://github.com/bert/llamalist/commit/0123456789abcdef0123456789abcdef01234567',
+    );
+});
+
+test('Commit change picks up trailers', () => {
+    const commit = mockCommit();
+    commit.subject = 'Make things better';
+    commit.trailers = {
+        'changelog': ['Things are better: much better'],
+        'type': ['defect'],
+        'fixes': ['#12, other/repo#34'],
+    };
+
+    const change = changeFromCommit(commit, 'bert', 'llamalist');
+    expect(change.notes).toEqual('Things are better: much better');
+    expect(change.changeType).toEqual(ChangeType.BUGFIX);
+    expect(change.fixes).toEqual([
+        { owner: 'bert', repo: 'llamalist', number: 12 },
+        { owner: 'other', repo: 'repo', number: 34 },
+    ]);
+
+    commit.trailers = {
+        'changelog': ['none'],
+    };
+    expect(changeFromCommit(commit, 'bert', 'llamalist').notes).toEqual(null);
+});
+
+test('Commit change notes from changelog fence', () => {
+    const commit = mockCommit();
+    commit.subject = 'Make things better';
+    commit.body = "Lots of detail\n\n```changelog\nThings are better.\n\nMuch better.\n```";
+
+    expect(changeFromCommit(commit, 'bert', 'llamalist').notes).toEqual("Things are better.\n\nMuch better.");
+});
+
+test('Commit change migration from trailer', () => {
+    const commit = mockCommit();
+    commit.subject = 'Make llamas fly';
+    commit.trailers = { 'migration': ['Call `llama.fly()` instead of `llama.jump()`.'] };
+
+    expect(changeFromCommit(commit, 'bert', 'llamalist').migration)
+        .toEqual('Call `llama.fly()` instead of `llama.jump()`.');
+});
+
+test('Commit change marked as a security fix by trailer', () => {
+    const commit = mockCommit();
+    commit.subject = 'Stop leaking llamas';
+    commit.body = 'Fixes CVE-2021-12345 upstream';
+    expect(changeFromCommit(commit, 'bert', 'llamalist').security).toEqual(false);
+    expect(changeFromCommit(commit, 'bert', 'llamalist').advisories).toEqual([]);
+    commit.body = '';
+
+    commit.trailers = { 'security': ['CVE-2021-12345'] };
+    const change = changeFromCommit(commit, 'bert', 'llamalist');
+    expect(change.security).toEqual(true);
+    expect(change.advisories).toEqual([]);
+
+    commit.body = 'Security: CVE-2021-12345';
+    expect(changeFromCommit(commit, 'bert', 'llamalist').advisories).toEqual(['CVE-2021-12345']);
+});
+
+test('Co-authors parsed from trailers', () => {
+    expect(parseCoAuthor('Bert <12345+bert@users.noreply.github.com>')).toEqual({ name: 'Bert', login: 'bert' });
+    expect(parseCoAuthor('Alice <alice@users.noreply.github.com>')).toEqual({ name: 'Alice', login: 'alice' });
+    expect(parseCoAuthor('Carol Llama <carol@example.com>')).toEqual({ name: 'Carol Llama', login: null });
+    expect(parseCoAuthor('Dave')).toEqual({ name: 'Dave', login: null });
+});
+
+test('Change from security advisory merge', () => {
+    const commit = mockCommit();
+    commit.subject = 'Merge pull request from GHSA-abcd-efgh-jkmp';
+    commit.body = "Stop leaking llamas\n\nType: defect";
+    commit.trailers = { 'type': ['defect'] };
+
+    const change = changeFromAdvisoryMerge(commit, 'bert', 'llamalist');
+    expect(change.notes).toEqual('Stop leaking llamas');
+    expect(change.changeType).toEqual(ChangeType.BUGFIX);
+    expect(change.security).toEqual(true);
+    expect(change.advisories).toEqual(['GHSA-abcd-efgh-jkmp']);
+});
+
+test('Commit change from Conventional Commit subject', () => {
+    const commit = mockCommit();
+    commit.subject = 'feat(api)!: add a thing';
+
+    const change = changeFromCommit(commit, 'bert', 'llamalist', undefined, true);
+    expect(change.changeType).toEqual(ChangeType.FEATURE);
+    expect(change.scope).toEqual('api');
+    expect(change.notes).toEqual('add a thing');
+    expect(change.breaking).toEqual(true);
+});
+
+function mockGraphQlPr(number: number, sha: string) {
+    return {
+        number,
+        title: `PR ${number}`,
+        body: '',
+        url: `https://github.com/bert/llamalist/pull/${number}`,
+        mergeCommit: { oid: sha },
+        labels: { nodes: [{ name: 'T-Defect' }] },
+        author: { login: 'bert' },
+        authorAssociation: 'MEMBER',
+        baseRepository: { name: 'llamalist', owner: { login: 'bert' } },
+    };
+}
+
+test('PRs fetched in batches over GraphQL', async () => {
+    const graphql = jest.fn(async (query: string) => {
+        const repository = {};
+        for (const match of query.match(/pullRequest\(number: \d+\)/g)) {
+            const n = parseInt(match.match(/\d+/)[0]);
+            repository[`pr${n}`] = mockGraphQlPr(n, `sha${n}`);
+        }
+        return { repository };
+    });
+    const commits = [];
+    for (let i = 1; i <= 120; ++i) commits.push({ PrNumber: i, sha: `sha${i}` });
+
+    const prs = await getPrInfo({ graphql } as unknown as Octokit, 'bert', 'llamalist', commits);
+    expect(graphql).toHaveBeenCalledTimes(3);
+    expect(prs.length).toEqual(120);
+    expect(prs[0].html_url).toEqual('https://github.com/bert/llamalist/pull/1');
+    expect(changeFromPrInfo(prs[0]).changeType).toEqual(ChangeType.BUGFIX);
+});
+
+test('PRs with the wrong merge commit or that do not exist are ignored', async () => {
+    const graphql = jest.fn(async () => {
+        throw Object.assign(new Error('Could not resolve to a PullRequest'), {
+            errors: [{ message: 'Could not resolve to a PullRequest with the number of 3.' }],
+            data: {
+                repository: {
+                    pr1: mockGraphQlPr(1, 'sha1'),
+                    pr2: mockGraphQlPr(2, 'somethingelse'),
+                    pr3: null,
+                },
+            },
+        });
+    });
+    const commits = [{ PrNumber: 1, sha: 'sha1' }, { PrNumber: 2, sha: 'sha2' }, { PrNumber: 3, sha: 'sha3' }];
+
+    const prs = await getPrInfo({ graphql } as unknown as Octokit, 'bert', 'llamalist', commits);
+    expect(prs.map(pr => pr.number)).toEqual([1]);
+
+    // unless we don't know what the merge commit should be
+    const unknownShas = commits.map(c => ({ ...c, sha: null }));
+    const prsBySha = await getPrInfo({ graphql } as unknown as Octokit, 'bert', 'llamalist', unknownShas);
+    expect(prsBySha.map(pr => pr.number)).toEqual([1, 2]);
+});
+
+test('PRs fetched one at a time from the REST API without a token', async () => {
+    const get = jest.fn(async ({ pull_number: prNum }) => {
+        if (prNum === 3) throw Object.assign(new Error('Not Found'), { status: 404 });
+        return { data: { number: prNum, merge_commit_sha: prNum === 2 ? 'somethingelse' : `sha${prNum}` } };
+    });
+    const octo = { rest: { pulls: { get } } } as unknown as Octokit;
+    const commits = [{ PrNumber: 1, sha: 'sha1' }, { PrNumber: 2, sha: 'sha2' }, { PrNumber: 3, sha: 'sha3' }];
+
+    const prs = await getPrInfoByRest(octo, 'bert', 'llamalist', commits);
+    expect(prs.map(pr => pr.number)).toEqual([1]);
+    expect(get).toHaveBeenCalledTimes(3);
+
+    get.mockRejectedValueOnce(Object.assign(new Error('Rate limited'), { status: 403 }));
+    await expect(getPrInfoByRest(octo, 'bert', 'llamalist', commits)).rejects.toThrow('Rate limited');
+});
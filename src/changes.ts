@@ -16,44 +16,138 @@ limitations under the License.
 
 import * as childProcess from 'child_process';
 import * as readline from 'readline';
-import * as path from 'path';
-import { promises as fsProm } from 'fs';
 import { Octokit } from '@octokit/rest';
 import { Endpoints } from '@octokit/types';
 import log from 'loglevel';
 
-const GITHUB_PREFIX = 'https://github.com/';
-
 const NOTES_MAGIC_TEXT = 'notes: ';
 const PROJECT_NOTES_REGEX = new RegExp(`^([\\w-]*) ${NOTES_MAGIC_TEXT}(.*)$`, 'i');
-const HEADLINE_MAGIC_TEXT = 'headlines: ';
+const HEADING_REGEXP = /^(#{1,6})\s/;
+const FENCE_REGEXP = /^(`{3,}|~{3,})/;
+// A headline can go on over the lines that follow it, up to a blank line
+const HEADLINE_REGEXP = /^headlines?:\s*(.*)$/i;
+// How to upgrade past a breaking change, which also goes on to a blank line
+const MIGRATION_REGEXP = /^migration:\s*(.*)$/i;
+// Where the headline goes among the others: lower numbers first
+const HEADLINE_ORDER_REGEXP = /^headline order:\s*(-?\d+)$/i;
+// Marks a PR as a security fix, eg. 'Security: CVE-2021-12345', or just 'Security: yes'
+const SECURITY_REGEXP = /^security:/i;
 
 const SQUASH_NUMBER_REGEXP = /\(#(\d+)\)/i; // "Message (#1234)", matching the number
 const HASH_NUMBER_ISSUE_REGEXP = /(?:close[sd]?|fix|fixe[sd]|resolve[sd]?):? #(\d+)/i;
 const OWNER_HASH_NUMBER_ISSUE_REGEXP = /(?:close[sd]?|fix|fixe[sd]|resolve[sd]?):? ([\w-]*)\/([\w-]*)#(\d+)/i;
+// GitLab puts a '-' path segment before 'issues'
 const ISSUE_URL_REGEXP =
-    /(?:close[sd]?|fix|fixe[sd]|resolve[sd]?):? https?:\/\/github.com\/([\w-]*)\/([\w-]*)\/issues\/([\d]*)/i;
+    /(?:close[sd]?|fix|fixe[sd]|resolve[sd]?):? https?:\/\/[\w.-]+\/([\w-]*)\/([\w-]*)\/(?:-\/)?issues\/([\d]*)/i;
+
+// "type(scope)!: description", see https://www.conventionalcommits.org/
+const CONVENTIONAL_TITLE_REGEX = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.*)$/;
+const CONVENTIONAL_BREAKING_REGEX = /^BREAKING[ -]CHANGE:/;
+// A title like "Backport of #1234" or "[Backport release-v1.9] Cherry-pick #1234", matching the original PR's number
+const BACKPORT_TITLE_REGEXP = /^\W*(?:backport(?:ed|s)?|cherry[- ]pick(?:ed|s)?)\b[^#]*#(\d+)/i;
+// A line in the description saying what it backports, eg. "Backport of #1234" or "Cherry-picked abcdef1 from #1234"
+const BACKPORT_BODY_REGEXP = /^\W*(?:backport(?:ed)?|cherry[- ]picked)(?:\s+[0-9a-f]{7,40})?\s+(?:of|from)\s+#(\d+)/im;
+
+const ISSUE_REF_REGEXP = /^#(\d+)$/;
+const OWNER_ISSUE_REF_REGEXP = /^([\w.-]*)\/([\w.-]*)#(\d+)$/;
+const ISSUE_URL_REF_REGEXP = /^https?:\/\/[\w.-]+\/([\w.-]*)\/([\w.-]*)\/(?:-\/)?issues\/([\d]*)$/i;
+
+const TRAILER_REGEXP = /^([\w-]+):\s*(.*)$/;
+const CO_AUTHOR_REGEXP = /^co-authored-by:\s*(.*)$/i;
+// "Name <email>", as in a Co-authored-by trailer
+const NAME_EMAIL_REGEXP = /^(.*?)\s*<([^>]*)>$/;
+// GitHub's private email addresses, eg. 1234+bert@users.noreply.github.com
+const GITHUB_NOREPLY_EMAIL_REGEXP = /^(?:\d+\+)?([\w-]+(?:\[bot])?)@users\.noreply\.github\.com$/i;
 
 const MERGE_COMMIT_REGEX = /Merge pull request #(\d+) from (.*)/;
+// Merging the fix for a GitHub security advisory from its temporary private fork makes a commit
+// like "Merge pull request from GHSA-xxxx-xxxx-xxxx", with the title of the fork's PR in the body
+const ADVISORY_MERGE_REGEXP = /^Merge pull request from (GHSA(?:-[0-9a-z]{4}){3})$/i;
+
+// Identifiers of vulnerabilities, eg. GHSA-xxxx-xxxx-xxxx and CVE-2021-12345
+const GHSA_ID_REGEXP = /\bGHSA(?:-[0-9a-z]{4}){3}\b/gi;
+const CVE_ID_REGEXP = /\bCVE-\d{4}-\d{4,}\b/gi;
+
+// The ways GitHub says which PR a commit came from, in order of preference
+export const GITHUB_PR_NUMBER_REGEXPS = [MERGE_COMMIT_REGEX, SQUASH_NUMBER_REGEXP];
 
 const COMMENT_REGEXP = /<!--(.*?)-->/gs;
 const MAGIC_COMMENT_REGEXP = /<!-- CHANGELOG_PREVIEW_START -->(.*)<!-- CHANGELOG_PREVIEW_END -->/gs;
 
+// The names of the change types we know about out of the box. Projects can define their own
+// in release_config.yaml, in which case a change's type is whatever name they give it.
 export enum ChangeType {
-    FEATURE,
-    BUGFIX,
-    TASK,
-    DEPRECATION,
+    FEATURE = 'feature',
+    BUGFIX = 'bugfix',
+    TASK = 'task',
+    DEPRECATION = 'deprecation',
 }
 
-export const labelToChangeType = {
-    'T-Deprecation': ChangeType.DEPRECATION,
-    'T-Enhancement': ChangeType.FEATURE,
-    'T-Defect': ChangeType.BUGFIX,
-    'T-Task': ChangeType.TASK,
-};
+export type BumpType = 'major' | 'minor' | 'patch';
+
+export interface ChangeTypeConfig {
+    // The name of the change type, which is what ends up in IChange.changeType
+    name: string;
+    // PR labels which mark a change as being of this type
+    labels: string[];
+    // Other names that can be given in a 'Type: ...' line in a PR description
+    aliases?: string[];
+    // Conventional Commit types (eg. 'feat') that map to this type, if the project uses them
+    conventionalTypes?: string[];
+    // Text of the changelog section for this type
+    header: string;
+    emoji?: string;
+    // Whether changes of this type are included in changelogs at all
+    changelog: boolean;
+    // Which part of the version changes of this type require bumping
+    bump: BumpType;
+}
+
+// The order of these is the order the sections appear in the changelog
+export const DEFAULT_CHANGE_TYPES: ChangeTypeConfig[] = [
+    {
+        name: ChangeType.DEPRECATION,
+        labels: ['T-Deprecation'],
+        conventionalTypes: ['deprecate'],
+        header: 'Deprecations',
+        emoji: '\uD83E\uDD96',
+        changelog: true,
+        // semver says deprecating something needs a new minor version
+        bump: 'minor',
+    },
+    {
+        name: ChangeType.FEATURE,
+        labels: ['T-Enhancement'],
+        aliases: ['enhancement'],
+        conventionalTypes: ['feat'],
+        header: 'Features',
+        emoji: '\u2728',
+        changelog: true,
+        bump: 'minor',
+    },
+    {
+        name: ChangeType.BUGFIX,
+        labels: ['T-Defect'],
+        aliases: ['defect'],
+        conventionalTypes: ['fix', 'perf'],
+        header: 'Bug Fixes',
+        emoji: '\uD83D\uDC1B',
+        changelog: true,
+        bump: 'patch',
+    },
+    {
+        name: ChangeType.TASK,
+        labels: ['T-Task'],
+        aliases: ['internal'],
+        conventionalTypes: ['build', 'chore', 'ci', 'docs', 'refactor', 'revert', 'style', 'test'],
+        header: 'Internal Changes',
+        changelog: false,
+        bump: 'patch',
+    },
+];
 
 export const BREAKING_CHANGE_LABEL = 'X-Breaking-Change';
+export const SECURITY_LABEL = 'X-Security';
 
 // M A G I C!: https://stackoverflow.com/questions/41253310/typescript-retrieve-element-type-information-from-array-type#51399781
 // (Github gives us the return type of the endpoints, which is an array: we want the type
@@ -63,16 +157,77 @@ export type ArrayElement<ArrayType extends readonly unknown[]> =
 
 export type PrInfo = ArrayElement<Endpoints['GET /repos/{owner}/{repo}/pulls']['response']['data']>;
 
+// A commit, as read from git, for projects that take their changes straight from commits
+export interface CommitInfo {
+    sha: string;
+    author: string;
+    subject: string;
+    body: string;
+    // Trailers from the end of the commit message, keyed by lowercase trailer name
+    trailers: Record<string, string[]>;
+    // Where the commit can be seen on the forge, if there is one
+    url?: string;
+}
+
+export type InclusionReasonType =
+    // the change doesn't have a type, or not one this project knows about
+    'no-type' |
+    // changes of this type don't go in the changelog, eg. tasks
+    'type-not-in-changelog' |
+    // 'Notes: none'
+    'notes-none' |
+    // '<project> notes: none' for the project whose changelog this is
+    'project-notes-none' |
+    // the change has notes specifically for the project whose changelog this is
+    'project-notes' |
+    // whether changes from the change's project are included by default
+    'included-by-default' |
+    'excluded-by-default';
+
+export const INCLUDED_REASONS: InclusionReasonType[] = ['project-notes', 'included-by-default'];
+
+// Why a change is or isn't in the changelog
+export interface IInclusionReason {
+    type: InclusionReasonType;
+    // The projects the change came through, from the project whose changelog this is
+    // to the one the change was made in
+    via: string[];
+    // For 'excluded-by-default', the first subproject on the way that isn't included by default
+    excludedBy?: string;
+}
+
 export interface IChange {
-    pr: PrInfo;
+    // null if the change came from a commit that isn't associated with a PR
+    pr: PrInfo | null;
+    commit?: CommitInfo;
     notes: string;
     notesByProject: Record<string, string>;
+    // Lines of text for the highlights at the top of the changelog entry
     headline: string;
-    changeType: ChangeType;
+    headlineOrder?: number | null;
+    // How to upgrade past the change, for the version's migration guide
+    migration: string | null;
+    changeType: string;
+    // The scope from a Conventional Commit style title, if there was one
+    scope: string | null;
     fixes: IIssueID[];
     breaking: boolean;
     security: boolean;
+    // The CVE and GHSA identifiers of the vulnerabilities a security fix is for
+    advisories: string[];
+    // The number of the PR this one backports to a maintenance branch, if it's a backport
+    backportOf?: number | null;
     shouldInclude?: boolean;
+    inclusionReason?: IInclusionReason;
+    // From the Co-authored-by trailers of the commit the change was merged as
+    coAuthors?: ICoAuthor[];
+}
+
+// Someone who helped with a change other than its author
+export interface ICoAuthor {
+    name: string;
+    // Their GitHub username, if we can tell what it is from their email address
+    login: string | null;
 }
 
 export interface IIssueID {
@@ -81,47 +236,31 @@ export interface IIssueID {
     number: number;
 }
 
-export interface MergeCommit {
-    PrNumber: number;
-    sha: string;
+export interface IConventionalTitle {
+    type: string;
+    scope: string | null;
+    breaking: boolean;
+    description: string;
 }
 
-export async function githubOrgRepoFromDir(repoDir: string) {
-    const pkgJson = JSON.parse(await fsProm.readFile(path.join(repoDir, 'package.json'), {
-        encoding: 'utf8',
-    }));
-
-    if (!pkgJson.repository || pkgJson.repository.type !== 'git') {
-        throw new Error(repoDir + " doesn't have a 'git' type repo in package.json!");
-    }
-    if (!pkgJson.repository.url.startsWith(GITHUB_PREFIX)) {
-        throw new Error(repoDir + "'s repository isn't a github https url!'");
-    }
-
-    const parts = pkgJson.repository.url.slice(GITHUB_PREFIX.length).split('/');
-    if (parts.length !== 2) {
-        throw new Error('Malformed github URL in repository URL for ' + repoDir);
-    }
-
-    return parts;
+export interface MergeCommit {
+    PrNumber: number;
+    // null if we don't know which commit the PR was merged as, eg. the original PR of a backport
+    sha: string | null;
+    // The Co-authored-by trailers of the commit, eg. from squashing commits by more than one person
+    coAuthors?: string[];
 }
 
-export function getMergedPrs(repoDir: string, from: string, to: string): Promise<MergeCommit[]> {
-    // ew: look for some common branch names and look for the origin versions so we don't
-    // rely on the local copy of the branches being pulled
-    // better way of doing this? when getting the package.json we just try the 'origin' version first
-    const hackRevision = rev => {
-        if (rev.startsWith('release') || rev === 'develop') return 'origin/' + rev;
-        return rev;
-    };
-
-    return new Promise<MergeCommit[]>((resolve) => {
+export function getMergedPrs(
+    repoDir: string, from: string, to: string, prNumberRegexps = GITHUB_PR_NUMBER_REGEXPS,
+): Promise<MergeCommit[]> {
+    return new Promise<MergeCommit[]>((resolve, reject) => {
         const proc = childProcess.spawn('git', [
             'rev-list',
             // '--merges', // we have squash merges now, so can't filter
             '--format=medium',
-            '^' + hackRevision(from),
-            hackRevision(to),
+            '^' + from,
+            to,
         ], {
             cwd: repoDir,
         });
@@ -131,6 +270,7 @@ export function getMergedPrs(repoDir: string, from: string, to: string): Promise
         });
 
         const prs = [] as MergeCommit[];
+        const coAuthorsBySha = new Map<string, string[]>();
 
         let commit;
         rl.on('line', line => {
@@ -139,32 +279,160 @@ export function getMergedPrs(repoDir: string, from: string, to: string): Promise
             if (trimmed.startsWith('commit ')) {
                 commit = trimmed.split(' ')[1];
             }
-            const match = trimmed.match(MERGE_COMMIT_REGEX);
-            const squashMatch = trimmed.match(SQUASH_NUMBER_REGEXP);
-            if (match) {
-                prs.push({
-                    PrNumber: parseInt(match[1]),
-                    sha: commit,
-                });
-            } else if (squashMatch) {
-                prs.push({
-                    PrNumber: parseInt(squashMatch[1]),
-                    sha: commit,
-                });
+            const coAuthorMatches = trimmed.match(CO_AUTHOR_REGEXP);
+            if (coAuthorMatches) {
+                coAuthorsBySha.set(commit, [...(coAuthorsBySha.get(commit) ?? []), coAuthorMatches[1]]);
+            }
+            for (const regexp of prNumberRegexps) {
+                const match = trimmed.match(regexp);
+                if (match) {
+                    prs.push({
+                        PrNumber: parseInt(match[1]),
+                        sha: commit,
+                    });
+                    break;
+                }
+            }
+        });
+        let stderr = '';
+        proc.stderr.on('data', data => stderr += data);
+        proc.on('error', reject);
+        proc.on('close', code => {
+            if (code !== 0) {
+                reject(new Error(`git rev-list ${from}..${to} failed in ${repoDir}: ${stderr.trim()}`));
+            } else {
+                for (const pr of prs) pr.coAuthors = coAuthorsBySha.get(pr.sha) ?? [];
+                resolve(prs);
             }
         });
-        rl.on('close', () => {
-            resolve(prs);
+    });
+}
+
+export function parseCoAuthor(trailer: string): ICoAuthor {
+    const matches = trailer.trim().match(NAME_EMAIL_REGEXP);
+    if (!matches) return { name: trailer.trim(), login: null };
+
+    const loginMatches = matches[2].match(GITHUB_NOREPLY_EMAIL_REGEXP);
+    return { name: matches[1] || matches[2], login: loginMatches ? loginMatches[1] : null };
+}
+
+function parseTrailers(text: string): Record<string, string[]> {
+    const trailers = {} as Record<string, string[]>;
+    for (const line of text.split("\n")) {
+        const matches = line.trim().match(TRAILER_REGEXP);
+        if (!matches) continue;
+
+        const key = matches[1].toLowerCase();
+        if (trailers[key] === undefined) trailers[key] = [];
+        trailers[key].push(matches[2].trim());
+    }
+    return trailers;
+}
+
+function logCommits(repoDir: string, args: string[]): Promise<CommitInfo[]> {
+    // fields are separated by NUL and commits by the ASCII record separator
+    const format = ['%H', '%an', '%s', '%b', '%(trailers:only,unfold)'].join('%x00') + '%x1e';
+
+    return new Promise<CommitInfo[]>((resolve, reject) => {
+        childProcess.execFile('git', [
+            'log',
+            '--format=' + format,
+            ...args,
+        ], {
+            cwd: repoDir,
+            maxBuffer: 64 * 1024 * 1024,
+        }, (error, stdout) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+
+            const commits = [] as CommitInfo[];
+            for (const record of stdout.split('\x1e')) {
+                if (record.trim() === '') continue;
+
+                const [sha, author, subject, body, trailers] = record.replace(/^\n/, '').split('\x00');
+                commits.push({
+                    sha,
+                    author,
+                    subject,
+                    body: body.trim(),
+                    trailers: parseTrailers(trailers),
+                });
+            }
+            resolve(commits);
         });
     });
 }
 
-export function getChangeTypeLabels(): string[] {
-    return Object.keys(labelToChangeType);
+export function getCommits(repoDir: string, from: string, to: string): Promise<CommitInfo[]> {
+    return logCommits(repoDir, ['--no-merges', '^' + from, to]);
+}
+
+// The merge commits of fixes made in GitHub security advisories' private forks, which have no
+// PR that we can look up
+export async function getAdvisoryMerges(repoDir: string, from: string, to: string): Promise<CommitInfo[]> {
+    const merges = await logCommits(repoDir, ['--merges', '--grep=^Merge pull request from GHSA-', '^' + from, to]);
+    return merges.filter(c => ADVISORY_MERGE_REGEXP.test(c.subject));
+}
+
+// The CVE and GHSA identifiers mentioned in some text, CVEs first
+export function findAdvisoryIds(text: string): string[] {
+    const ids = [
+        ...(text.match(CVE_ID_REGEXP) ?? []).map(id => id.toUpperCase()),
+        // GitHub writes these with the prefix in upper case and the rest in lower case
+        ...(text.match(GHSA_ID_REGEXP) ?? []).map(id => 'GHSA' + id.slice(4).toLowerCase()),
+    ];
+    return [...new Set(ids)];
+}
+
+export function getChangeTypeLabels(changeTypes = DEFAULT_CHANGE_TYPES): string[] {
+    return [].concat(...changeTypes.map(t => t.labels));
+}
+
+export function getChangeTypeConfig(
+    name: string, changeTypes = DEFAULT_CHANGE_TYPES,
+): ChangeTypeConfig | undefined {
+    return changeTypes.find(t => t.name === name);
+}
+
+export function changeTypeForLabel(label: string, changeTypes = DEFAULT_CHANGE_TYPES): string | null {
+    const changeType = changeTypes.find(t => t.labels.includes(label));
+    return changeType ? changeType.name : null;
+}
+
+// Finds a change type by name, alias or label, as given by a human in a 'Type: ...' line
+export function changeTypeForName(name: string, changeTypes = DEFAULT_CHANGE_TYPES): ChangeTypeConfig | undefined {
+    const lowerName = name.toLowerCase();
+    return changeTypes.find(t => (
+        t.name.toLowerCase() === lowerName ||
+        t.aliases?.some(a => a.toLowerCase() === lowerName) ||
+        t.labels.some(l => l.toLowerCase() === lowerName)
+    ));
+}
+
+export function changeTypeForConventionalType(
+    conventionalType: string, changeTypes = DEFAULT_CHANGE_TYPES,
+): string | null {
+    const type = conventionalType.toLowerCase();
+    const changeType = changeTypes.find(t => t.name === type || t.conventionalTypes?.includes(type));
+    return changeType ? changeType.name : null;
 }
 
-export function hasChangeTypeLabel(pr: PrInfo): boolean {
-    const changeLabels = getChangeTypeLabels();
+export function parseConventionalTitle(title: string): IConventionalTitle | null {
+    const matches = title.trim().match(CONVENTIONAL_TITLE_REGEX);
+    if (!matches) return null;
+
+    return {
+        type: matches[1],
+        scope: matches[2] ? matches[2].trim() : null,
+        breaking: matches[3] === '!',
+        description: matches[4].trim(),
+    };
+}
+
+export function hasChangeTypeLabel(pr: PrInfo, changeTypes = DEFAULT_CHANGE_TYPES): boolean {
+    const changeLabels = getChangeTypeLabels(changeTypes);
     for (const lbl of pr.labels) {
         if (changeLabels.includes(lbl.name)) return true;
     }
@@ -172,41 +440,166 @@ export function hasChangeTypeLabel(pr: PrInfo): boolean {
     return false;
 }
 
-export function changeFromPrInfo(pr: PrInfo): IChange {
+interface IBlocks {
+    // The text, without the blocks
+    rest: string;
+    // undefined if there's no block for the change as a whole
+    text?: string | null;
+    byProject: Record<string, string | null>;
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+    const trimmed = line.trim();
+    return trimmed.length >= fence.length && trimmed === fence[0].repeat(trimmed.length);
+}
+
+// The text of a block, with the block's indentation taken off. An empty block, eg. from a PR template
+// that nobody filled in, doesn't count.
+function blockText(lines: string[]): string | null | undefined {
+    const indents = lines.filter(l => l.trim() !== '').map(l => l.match(/^\s*/)[0].length);
+    const text = lines.map(l => l.slice(Math.min(...indents))).join("\n").replace(/\s+$/, '').replace(/^\s*\n/, '');
+    if (text === '') return undefined;
+    return text.toLowerCase() === 'none' ? null : text;
+}
+
+// Takes text of more than one line out of a PR description or commit message: either a fenced block
+// with the given name as its info string, eg. "```changelog", or a section with it as its heading, eg.
+// "### Changelog", up to the next heading at the same level or above. Either can be given a project
+// name ("```changelog element-web" or "### element-web changelog"), for text that's only for that project.
+function extractBlocks(text: string, name: string): IBlocks {
+    const fenceRegexp = new RegExp(`^(\`{3,}|~{3,})\\s*${name}(?:\\s+([\\w-]+))?$`, 'i');
+    const headingRegexp = new RegExp(`^(#{1,6})\\s+(?:([\\w-]+)\\s+)?${name}\\s*#*$`, 'i');
+    const lines = text.split("\n").map(l => l.replace(/\r$/, ''));
+    const result: IBlocks = { rest: '', byProject: {} };
+    const rest: string[] = [];
+
+    for (let i = 0; i < lines.length; ++i) {
+        const trimmed = lines[i].trim();
+        const block: string[] = [];
+        let project: string | undefined;
+        let matches: RegExpMatchArray;
+
+        if (matches = trimmed.match(fenceRegexp)) {
+            const fence = matches[1];
+            project = matches[2];
+            for (++i; i < lines.length && !isClosingFence(lines[i], fence); ++i) block.push(lines[i]);
+        } else if (matches = trimmed.match(headingRegexp)) {
+            const level = matches[1].length;
+            project = matches[2];
+            // headings in code blocks don't end the section
+            let fence: string = null;
+            for (; i + 1 < lines.length; ++i) {
+                const next = lines[i + 1];
+                if (fence === null) {
+                    const heading = next.trim().match(HEADING_REGEXP);
+                    if (heading && heading[1].length <= level) break;
+                    const fenceMatches = next.trim().match(FENCE_REGEXP);
+                    if (fenceMatches) fence = fenceMatches[1];
+                } else if (isClosingFence(next, fence)) {
+                    fence = null;
+                }
+                block.push(next);
+            }
+        } else {
+            rest.push(lines[i]);
+            continue;
+        }
+
+        const blockContent = blockText(block);
+        if (blockContent === undefined) continue;
+        if (project) {
+            result.byProject[project] = blockContent;
+        } else {
+            result.text = blockContent;
+        }
+    }
+
+    result.rest = rest.join("\n");
+    return result;
+}
+
+// Lines that mean something to us, or look like they might, such as the issues the PR fixes and
+// 'Key: value' lines like 'Type: ...', so aren't part of a headline or migration before them
+function endsContinuation(line: string): boolean {
+    return (
+        line.toLowerCase().startsWith(NOTES_MAGIC_TEXT) ||
+        HEADLINE_REGEXP.test(line) ||
+        MIGRATION_REGEXP.test(line) ||
+        HEADLINE_ORDER_REGEXP.test(line) ||
+        PROJECT_NOTES_REGEX.test(line) ||
+        TRAILER_REGEXP.test(line) ||
+        HASH_NUMBER_ISSUE_REGEXP.test(line) ||
+        OWNER_HASH_NUMBER_ISSUE_REGEXP.test(line) ||
+        ISSUE_URL_REGEXP.test(line)
+    );
+}
+
+export function changeFromPrInfo(
+    pr: PrInfo, changeTypes = DEFAULT_CHANGE_TYPES, conventionalCommits = false,
+): IChange {
     let breaking = false;
-    const security = false;
-    let changeType: ChangeType = null;
+    let security = false;
+    let changeType: string = null;
+    let scope: string = null;
+    let notes = pr.title;
+
+    // Labels take precedence over the title if both give a type
+    const conventionalTitle = conventionalCommits ? parseConventionalTitle(pr.title) : null;
+    if (conventionalTitle) {
+        changeType = changeTypeForConventionalType(conventionalTitle.type, changeTypes);
+        scope = conventionalTitle.scope;
+        breaking = conventionalTitle.breaking;
+        notes = conventionalTitle.description;
+    }
+
     for (const label of pr.labels) {
-        if (labelToChangeType[label.name] !== undefined) {
-            changeType = labelToChangeType[label.name];
+        const labelChangeType = changeTypeForLabel(label.name, changeTypes);
+        if (labelChangeType !== null) {
+            changeType = labelChangeType;
         } else if (label.name === BREAKING_CHANGE_LABEL) {
             breaking = true;
+        } else if (label.name === SECURITY_LABEL) {
+            security = true;
         }
     }
 
-    // security fixes are annoying: we normally do them with github's security advisory
-    // tooling, but this creates a temporary private fork and merges the changes in with a merge
-    // commit similar to a PR, but no github pull object ever exists. Best we could do is
-    // parse the body of the merge commit to try to work out that it's a security fix.
-    /*if () {
-        security = true;
-    }*/
-
-    let notes = pr.title;
-    let headline = null;
+    const headlineLines: string[] = [];
+    let headlineOrder: number = null;
+    let migrationLines: string[] = [];
+    // the headline or migration that the current line carries on, if any
+    let continuing: string[] = null;
     const notesByProject = {};
     let matches: RegExpMatchArray;
     const fixes = new Map<string, IIssueID>();
 
     if (pr.body) {
         const bodyMainContent = pr.body.replace(MAGIC_COMMENT_REGEXP, "").replace(COMMENT_REGEXP, "");
-        for (const line of bodyMainContent.split("\n")) {
+        // blocks take precedence over 'Notes:' and 'Migration:' lines
+        const migrationBlocks = extractBlocks(bodyMainContent, 'migration');
+        const blocks = extractBlocks(migrationBlocks.rest, 'changelog');
+        for (const line of blocks.rest.split("\n")) {
             const trimmed = line.trim();
-            if (trimmed.toLowerCase().startsWith(NOTES_MAGIC_TEXT)) {
-                notes = trimmed.split(':', 2)[1].trim();
+            if (continuing && trimmed !== '' && !endsContinuation(trimmed)) {
+                continuing.push(trimmed);
+                continue;
+            }
+            continuing = null;
+
+            if (conventionalCommits && CONVENTIONAL_BREAKING_REGEX.test(trimmed)) {
+                breaking = true;
+            } else if (trimmed.toLowerCase().startsWith(NOTES_MAGIC_TEXT)) {
+                notes = trimmed.slice(NOTES_MAGIC_TEXT.length).trim();
                 if (notes.toLowerCase() === 'none') notes = null;
-            } else if (trimmed.toLowerCase().startsWith(HEADLINE_MAGIC_TEXT)) {
-                headline = trimmed.split(':', 2)[1].trim();
+            } else if (matches = trimmed.match(HEADLINE_REGEXP)) {
+                if (matches[1] !== '') headlineLines.push(matches[1]);
+                continuing = headlineLines;
+            } else if (matches = trimmed.match(MIGRATION_REGEXP)) {
+                migrationLines = matches[1] !== '' ? [matches[1]] : [];
+                continuing = migrationLines;
+            } else if (matches = trimmed.match(HEADLINE_ORDER_REGEXP)) {
+                headlineOrder = parseInt(matches[1]);
+            } else if (SECURITY_REGEXP.test(trimmed)) {
+                security = true;
             } else if (matches = line.match(PROJECT_NOTES_REGEX)) {
                 notesByProject[matches[1]] = matches[2].trim();
                 if (notesByProject[matches[1]].toLowerCase() === 'none') notesByProject[matches[1]] = null;
@@ -236,21 +629,191 @@ export function changeFromPrInfo(pr: PrInfo): IChange {
                 fixes.set(`${issue.owner}/${issue.repo}#${issue.number}`, issue);
             }
         }
+
+        if (blocks.text !== undefined) notes = blocks.text;
+        Object.assign(notesByProject, blocks.byProject);
+        if (migrationBlocks.text !== undefined) {
+            migrationLines = migrationBlocks.text === null ? [] : [migrationBlocks.text];
+        }
     }
 
+    // Security fixes made with GitHub's security advisory tooling are merged from a temporary
+    // private fork with no PR object: see changeFromAdvisoryMerge for those. Fixes made in PRs
+    // have the label or a 'Security:' line, and the vulnerabilities they fix are the ones they
+    // mention. Others may mention them too, eg. in an upstream project's release notes.
+    const advisories = security ? findAdvisoryIds(`${pr.title}\n${(pr.body ?? '').replace(COMMENT_REGEXP, '')}`) : [];
+
+    const backportMatches = pr.title.match(BACKPORT_TITLE_REGEXP) ?? (pr.body ?? '').match(BACKPORT_BODY_REGEXP);
+    const backportOf = backportMatches ? parseInt(backportMatches[1]) : null;
+
     return {
         pr,
         notes,
         notesByProject,
-        headline,
+        headline: headlineLines.length > 0 ? headlineLines.join("\n") : null,
+        headlineOrder,
+        migration: migrationLines.join("\n") || null,
         changeType,
+        scope,
         fixes: [...fixes.values()],
         breaking,
         security,
+        advisories,
+        backportOf: backportOf !== pr.number ? backportOf : null,
     };
 }
 
-export async function getPrInfo(
+// An issue as it's referred to, eg. "#123", "owner/repo#123" or its URL, or null if it isn't one.
+// Issues without an owner and repo are taken to be the given project's.
+export function parseIssueRef(ref: string, owner: string, repo: string): IIssueID | null {
+    let matches: RegExpMatchArray;
+    if (matches = ref.match(ISSUE_REF_REGEXP)) {
+        return { owner, repo, number: parseInt(matches[1]) };
+    } else if (matches = ref.match(OWNER_ISSUE_REF_REGEXP)) {
+        return { owner: matches[1], repo: matches[2], number: parseInt(matches[3]) };
+    } else if (matches = ref.match(ISSUE_URL_REF_REGEXP)) {
+        return { owner: matches[1], repo: matches[2], number: parseInt(matches[3]) };
+    }
+    return null;
+}
+
+export function changeFromCommit(
+    commit: CommitInfo, owner: string, repo: string, changeTypes = DEFAULT_CHANGE_TYPES, conventionalCommits = false,
+): IChange {
+    let changeType: string = null;
+    let scope: string = null;
+    let breaking = false;
+    let notes = commit.subject;
+
+    const conventionalTitle = conventionalCommits ? parseConventionalTitle(commit.subject) : null;
+    if (conventionalTitle) {
+        changeType = changeTypeForConventionalType(conventionalTitle.type, changeTypes);
+        scope = conventionalTitle.scope;
+        breaking = conventionalTitle.breaking;
+        notes = conventionalTitle.description;
+    }
+
+    // As with labels on PRs, an explicit 'Type:' trailer takes precedence
+    for (const typeName of commit.trailers['type'] || []) {
+        const trailerChangeType = changeTypeForName(typeName, changeTypes);
+        if (trailerChangeType) changeType = trailerChangeType.name;
+    }
+
+    for (const changelog of commit.trailers['changelog'] || []) {
+        notes = changelog.toLowerCase() === 'none' ? null : changelog;
+    }
+    // notes of more than one line can go in the body, as they can in a PR description
+    const migrationBlocks = extractBlocks(commit.body, 'migration');
+    const blocks = extractBlocks(migrationBlocks.rest, 'changelog');
+    if (blocks.text !== undefined) notes = blocks.text;
+    let migration = (commit.trailers['migration'] || []).join("\n") || null;
+    if (migrationBlocks.text !== undefined) migration = migrationBlocks.text;
+
+    // trailers are one line each, so a headline of several lines is several trailers
+    const headlines = commit.trailers['headline'] || [];
+    let headlineOrder: number = null;
+    for (const order of commit.trailers['headline-order'] || []) {
+        if (/^-?\d+$/.test(order)) headlineOrder = parseInt(order);
+    }
+
+    if (commit.body.split("\n").some(line => CONVENTIONAL_BREAKING_REGEX.test(line.trim()))) {
+        breaking = true;
+    }
+
+    const fixes = new Map<string, IIssueID>();
+    for (const fixTrailer of commit.trailers['fixes'] || []) {
+        for (const ref of fixTrailer.split(/[\s,]+/)) {
+            const issue = parseIssueRef(ref, owner, repo);
+            if (issue) fixes.set(`${issue.owner}/${issue.repo}#${issue.number}`, issue);
+        }
+    }
+
+    // 'Security: CVE-2021-12345', or just 'Security: yes' for a fix with no identifier
+    const security = commit.trailers['security'] !== undefined;
+    const advisories = security ? findAdvisoryIds(`${commit.subject}\n${commit.body}`) : [];
+
+    return {
+        pr: null,
+        commit,
+        notes,
+        notesByProject: blocks.byProject,
+        headline: headlines.length > 0 ? headlines.join("\n") : null,
+        headlineOrder,
+        migration,
+        changeType,
+        scope,
+        fixes: [...fixes.values()],
+        breaking,
+        security,
+        advisories,
+    };
+}
+
+// A change for the merge of a fix from a GitHub security advisory's private fork, whose
+// description is the title of the fork's PR
+export function changeFromAdvisoryMerge(
+    commit: CommitInfo, owner: string, repo: string, changeTypes = DEFAULT_CHANGE_TYPES, conventionalCommits = false,
+): IChange {
+    const ghsaIds = findAdvisoryIds(commit.subject);
+    const title = commit.body.split("\n")[0].trim() || commit.subject;
+    const change = changeFromCommit({ ...commit, subject: title }, owner, repo, changeTypes, conventionalCommits);
+    change.security = true;
+    change.advisories = [...new Set([...change.advisories, ...ghsaIds])];
+    return change;
+}
+
+// Where the change can be seen on the forge, or null for a commit in a project without one
+export function getChangeUrl(change: IChange): string | null {
+    return change.pr ? change.pr.html_url : (change.commit.url ?? null);
+}
+
+// How many PRs to ask for in each GraphQL query
+const PR_BATCH_SIZE = 50;
+
+const PR_FIELDS = `
+    number
+    title
+    body
+    url
+    updatedAt
+    mergeCommit { oid }
+    labels(first: 100) { nodes { name } }
+    author { login }
+    authorAssociation
+    baseRepository { name owner { login } }
+`;
+
+// The GraphQL API gives us PRs in a different shape to the REST API, so turn them into
+// what the rest of the code expects. Only the fields we use are filled in.
+function prInfoFromGraphQl(pr: any): PrInfo {
+    return {
+        number: pr.number,
+        title: pr.title,
+        body: pr.body,
+        html_url: pr.url,
+        updated_at: pr.updatedAt,
+        merge_commit_sha: pr.mergeCommit?.oid ?? null,
+        labels: pr.labels.nodes,
+        // deleted users show up as a null author
+        user: {
+            login: pr.author?.login ?? 'ghost',
+        },
+        author_association: pr.authorAssociation,
+        base: {
+            repo: {
+                name: pr.baseRepository.name,
+                owner: {
+                    login: pr.baseRepository.owner.login,
+                    name: pr.baseRepository.owner.login,
+                },
+            },
+        },
+    } as unknown as PrInfo;
+}
+
+// GitHub's GraphQL API can't be used without a token, so without one we fetch each PR from the REST API
+// instead, which is slower and, without a token, limited to 60 requests an hour
+export async function getPrInfoByRest(
     octo: Octokit, repoOwner: string, repoName: string, mergeCommits: MergeCommit[],
 ): Promise<PrInfo[]> {
     const prMap = new Map<number, string>();
@@ -259,26 +822,26 @@ export async function getPrInfo(
     }
     const mergedPrInfo: PrInfo[] = [];
 
-    // This is how you're supposed to paginate with octokit, but it seems like the types are
-    // so screwed that typescript can't resolve them (the below sinppet failed to compile).
-    // You're not supposed to use pagination directly because some APIs have sensible pagination
-    // APIs with prev/next references. This one doesn't though, so it doesn't really matter.
-    /*
-    octo.paginate('GET /repos/{owner}/{repo}/pulls', {
-        owner: 'matrix-org',
-        repo: 'matrix-react-sdk',
-        state: 'closed',
-        sort: 'created',
-        direction: 'desc',
-        per_page: 100,
-    }, (resp, done: () => void): void => {
-        return resp;
-    });
-    */
+    for (const [prNum, expectedSha] of prMap) {
+        log.debug(`Fetching PR ${prNum}...`);
+        let prInfo: PrInfo;
+        try {
+            const prResp = await octo.rest.pulls.get({
+                owner: repoOwner,
+                repo: repoName,
+                pull_number: prNum,
+            });
+            // XXX: The object shapes of items in the 'list pulls' API and what you
+            // get from the 'get pull' API are different, but close enough for our purposes
+            prInfo = prResp.data as unknown as PrInfo;
+        } catch (e) {
+            // as with GraphQL, numbers that aren't PRs (eg. issues mentioned in a squash merge) are skipped
+            if (e.status !== 404) throw e;
+            log.warn(`Ignoring PR ${prNum}: it doesn't exist`);
+            continue;
+        }
 
-    const checkAndAddPrInfo = (prInfo: PrInfo) => {
-        const expectedSha = prMap.get(prInfo.number);
-        if (prInfo.merge_commit_sha === expectedSha) {
+        if (expectedSha === null || prInfo.merge_commit_sha === expectedSha) {
             mergedPrInfo.push(prInfo);
         } else {
             log.debug(
@@ -286,59 +849,62 @@ export async function getPrInfo(
                 `(${prInfo.merge_commit_sha}) doesn't match git (${expectedSha})`,
             );
         }
-        prMap.delete(prInfo.number);
-    };
+    }
 
-    let pageNum = 1;
-    while (prMap.size > 0) {
-        if (prMap.size === 1) {
-            const prNum = prMap.keys().next().value;
-            log.debug(`Fetching remaining PR ${prNum} individually...`);
-            const prResp = await octo.pulls.get({
-                owner: repoOwner,
-                repo: repoName,
-                pull_number: prNum,
-            });
-            // XXX: The object shapes of items in the 'list pulls' API and what you
-            // get from the 'get pull' API are different. Hopefully they're close
-            // enough for our purposes...
-            checkAndAddPrInfo(prResp.data as unknown as PrInfo);
-            break;
-        }
+    return mergedPrInfo;
+}
 
-        // Github doesn't have a way to get multiple PRs at once, but we can list them
-        // all. Since we generally want the most recent, this is probably fine and is a
-        // single API call rather than one for each merged PR.
-        log.debug(prMap.size + " PRs left to find");
-        log.debug("Still have to find: " + Array.from(prMap.keys()).join(', '));
-        log.debug("Getting page " + pageNum);
-        const prListResp = await octo.rest.pulls.list({
-            owner: repoOwner,
-            repo: repoName,
-            state: 'closed',
-            sort: 'updated', // We assume we're looking for the most recently merged ones
-            direction: 'desc',
-            per_page: 100,
-            page: pageNum,
-        });
-        //console.log("Got PRs: " + prListResp.data.map(pr => pr.number).join(', '));
+export async function getPrInfo(
+    octo: Octokit, repoOwner: string, repoName: string, mergeCommits: MergeCommit[],
+): Promise<PrInfo[]> {
+    const prMap = new Map<number, string>();
+    for (const c of mergeCommits) {
+        prMap.set(c.PrNumber, c.sha);
+    }
+    const prNumbers = Array.from(prMap.keys());
+    const mergedPrInfo: PrInfo[] = [];
 
-        if (prListResp.data.length === 0) break;
+    // Github's REST API has no way to get multiple PRs at once, but GraphQL lets us ask
+    // for as many as we like in one query by giving each one an alias.
+    for (let i = 0; i < prNumbers.length; i += PR_BATCH_SIZE) {
+        const batch = prNumbers.slice(i, i + PR_BATCH_SIZE);
+        log.debug(`Fetching PRs ${batch.join(', ')}`);
 
-        for (const pr of prListResp.data) {
-            if (prMap.has(pr.number)) {
-                checkAndAddPrInfo(pr);
+        const query = `query($owner: String!, $repo: String!) {
+            repository(owner: $owner, name: $repo) {
+                ${batch.map(n => `pr${n}: pullRequest(number: ${n}) { ${PR_FIELDS} }`).join("\n")}
+            }
+        }`;
+
+        let result: any;
+        try {
+            result = await octo.graphql(query, { owner: repoOwner, repo: repoName });
+        } catch (e) {
+            // If some of the numbers aren't PRs (eg. a squash merge mentioning an issue number),
+            // we get an error, but still get the rest of the PRs.
+            if (!e.data?.repository) throw e;
+            for (const error of e.errors ?? []) {
+                log.warn(`Ignoring PR: ${error.message}`);
             }
+            result = e.data;
         }
 
-        pageNum++;
+        for (const prNum of batch) {
+            const pr = result.repository[`pr${prNum}`];
+            if (!pr) continue;
+
+            const prInfo = prInfoFromGraphQl(pr);
+            const expectedSha = prMap.get(prNum);
+            if (expectedSha === null || prInfo.merge_commit_sha === expectedSha) {
+                mergedPrInfo.push(prInfo);
+            } else {
+                log.debug(
+                    `Ignoring PR ${prInfo.number} because merge commit ` +
+                    `(${prInfo.merge_commit_sha}) doesn't match git (${expectedSha})`,
+                );
+            }
+        }
     }
 
-    if (prMap.size > 0) {
-        log.debug("Found info on prs: " + mergedPrInfo.map(pr => pr.number).join(', '));
-        log.debug("Couldn't find: " + Array.from(prMap).join(', '));
-        // 100 is the max per page so if we didn't find them all, we'll have to paginate
-        throw new Error("Couldn't find all PRs");
-    }
     return mergedPrInfo;
 }
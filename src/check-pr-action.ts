@@ -23,20 +23,22 @@ import { RequestInterface } from '@octokit/types';
 
 import {
     breakingChangeHeader,
-    bugFixChangeHeader,
-    deprecationsHeader,
-    featureChangeHeader,
+    changeTypeHeader,
+    highlightsHeader,
     makeChangeEntry,
+    makeHighlightEntry,
 } from './changelog';
 import {
     BREAKING_CHANGE_LABEL,
     changeFromPrInfo,
-    ChangeType,
+    changeTypeForName,
+    ChangeTypeConfig,
+    getChangeTypeConfig,
     getChangeTypeLabels,
     hasChangeTypeLabel,
-    labelToChangeType,
     PrInfo,
 } from './changes';
+import { loadReleaseConfig } from './projects';
 
 const MAGIC_HEAD = '<!-- CHANGELOG_PREVIEW_START -->\n---\n';
 const MAGIC_TAIL = '<!-- CHANGELOG_PREVIEW_END -->';
@@ -70,46 +72,22 @@ async function updatePrBody(pr: PrInfo, text: string, octokit: SortOfAnOctokit)
     });
 }
 
-function hasLabel(label: string, pr: PrInfo): boolean {
-    return pr.labels.some(l => l.name === label);
-}
-
-async function addLabels(octokit: SortOfAnOctokit, pr: PrInfo): Promise<PrInfo> {
+async function addLabels(octokit: SortOfAnOctokit, pr: PrInfo, changeTypes: ChangeTypeConfig[]): Promise<PrInfo> {
     // If the PR already has a change type label, do nothing
-    for (const label of Object.keys(labelToChangeType)) {
-        if (hasLabel(label, pr)) return pr;
-    }
+    if (hasChangeTypeLabel(pr, changeTypes)) return pr;
 
     const matches = pr.body?.match(/^Type: ([\w-]+)/im);
     if (matches) {
-        let changeType;
-        switch (matches[1].toLowerCase()) {
-            case 'enhancement':
-            case 'feature':
-                changeType = ChangeType.FEATURE;
-                break;
-            case 'defect':
-            case 'bugfix':
-                changeType = ChangeType.BUGFIX;
-                break;
-            case 'task':
-            case 'internal':
-                changeType = ChangeType.TASK;
-                break;
-            default:
-                return;
-        }
+        const changeType = changeTypeForName(matches[1], changeTypes);
+        if (!changeType || changeType.labels.length === 0) return pr;
 
-        for (const [label, labelType] of Object.entries(labelToChangeType)) {
-            if (labelType === changeType && !hasLabel(label, pr)) {
-                console.log("Adding label: " + label);
-                await octokit.rest.issues.addLabels({
-                    ...github.context.repo,
-                   issue_number: pr.number,
-                   labels: [label],
-                });
-            }
-        }
+        const label = changeType.labels[0];
+        console.log("Adding label: " + label);
+        await octokit.rest.issues.addLabels({
+            ...github.context.repo,
+            issue_number: pr.number,
+            labels: [label],
+        });
 
         console.log("Refreshing PR labels...");
         const resp = await octokit.rest.pulls.get({
@@ -131,25 +109,27 @@ async function main() {
         const myToken = core.getInput('ghToken');
         const requireLabel = core.getBooleanInput('requireLabel');
         const octokit = github.getOctokit(myToken);
+        const { changeTypes, conventionalCommits, migration, contributors } = await loadReleaseConfig(process.cwd());
 
         // we're assuming the repo name is the same as the project name
         const forProjectName = github.context.repo.repo;
         let pr = github.context.payload.pull_request as PrInfo; // of course the types aren't compatible
 
         console.log("Scanning for labels to add...");
-        pr = await addLabels(octokit, pr);
+        pr = await addLabels(octokit, pr, changeTypes);
 
-        const change = changeFromPrInfo(pr);
+        const change = changeFromPrInfo(pr, changeTypes, conventionalCommits);
+        const changeType = getChangeTypeConfig(change.changeType, changeTypes);
 
         const lines = [] as string[];
-        if (!hasChangeTypeLabel(pr)) {
+        if (change.changeType === null) {
             if (requireLabel) {
                 lines.push("This PR currently has none of the required changelog labels.");
             } else {
                 lines.push("This PR currently has no changelog labels, so will not be included in changelogs.");
             }
             lines.push("");
-            const labelsWithFormatting = getChangeTypeLabels().map(l => '`' + l + '`').join(", ");
+            const labelsWithFormatting = getChangeTypeLabels(changeTypes).map(l => '`' + l + '`').join(", ");
             // This is a very crude approximation of github's permission model.
             // It will almost certainly be wrong sometimes.
             if (['MEMBER', 'OWNER'].includes(change.pr.author_association)) {
@@ -160,10 +140,18 @@ async function main() {
             } else {
                 lines.push(
                     `A reviewer can add one of: ${labelsWithFormatting} to ` +
-                    `indicate what type of change this is, or add \`Type: [enhancement/defect/task]\` ` +
+                    `indicate what type of change this is, or add ` +
+                    `\`Type: [${changeTypes.map(t => t.name).join('/')}]\` ` +
                     `to the description and I'll add them for you.`,
                 );
             }
+            if (conventionalCommits) {
+                lines.push("");
+                lines.push(
+                    "Alternatively, give the PR a title in Conventional Commits format, " +
+                    "such as `feat: Add a thing` or `fix(scope)!: Fix a thing`.",
+                );
+            }
 
             if (requireLabel) {
                 core.setFailed(lines.join("\n"));
@@ -173,31 +161,43 @@ async function main() {
                 "This change is marked as *breaking*, but is missing a changelog entry.",
             );
             core.setFailed(lines.join("\n"));
-        } else if (change.changeType === ChangeType.TASK && !change.breaking) {
+        } else if (!changeType.changelog && !change.breaking) {
             lines.push(
-                "This change is marked as an *internal change* (Task), so will not be included in the changelog.",
+                `This change is marked as a *${changeType.name}* change, so will not be included in the changelog.`,
             );
         } else if (change.notes == null) {
             lines.push(
                 "This change has no change notes, so will not be included in the changelog.",
             );
         } else {
-            const entry = makeChangeEntry(change, { name: forProjectName, ...github.context.repo });
+            const entry = makeChangeEntry(
+                change, { name: forProjectName, ...github.context.repo }, changeTypes, contributors.exclude,
+            );
 
             lines.push("Here's what your changelog entry will look like:");
             lines.push("");
+            if (change.headline) {
+                lines.push(highlightsHeader);
+                lines.push(makeHighlightEntry(change));
+                lines.push("");
+            }
             if (change.breaking) {
                 lines.push(breakingChangeHeader);
-            } else if (change.changeType === ChangeType.FEATURE) {
-                lines.push(featureChangeHeader);
-            } else if (change.changeType === ChangeType.BUGFIX) {
-                lines.push(bugFixChangeHeader);
-            } else if (change.changeType === ChangeType.DEPRECATION) {
-                lines.push(deprecationsHeader);
+            } else {
+                lines.push(changeTypeHeader(changeType));
             }
             lines.push(entry);
         }
 
+        if (change.breaking && change.migration === null && migration.required) {
+            lines.push("");
+            lines.push(
+                "This change is marked as *breaking*, but doesn't say how to upgrade past it. " +
+                "Add a `Migration:` line or a `### Migration` section to the description for the migration guide.",
+            );
+            core.setFailed(lines.join("\n"));
+        }
+
         updatePrBody(pr, lines.join("\n"), octokit);
     } catch (error) {
         console.error(error);
@@ -0,0 +1,73 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { BumpType, ChangeTypeConfig, IChange } from './changes';
+import { changeToJson } from './formats';
+import { ChangesByProject } from './projects';
+import { getBumpType, getChangeBumpType, incrementVersion } from './bump';
+
+export interface ICheckReport {
+    project: string;
+    from: string;
+    to: string;
+    // The home project first, then its subprojects
+    projects: {
+        name: string;
+        included: object[];
+        omitted: object[];
+    }[];
+    breakingChanges: number;
+    features: number;
+    bump: BumpType;
+    // null if we're not comparing against a release, so don't know what version we're at
+    currentVersion: string | null;
+    nextVersion: string | null;
+}
+
+function checkChangeToJson(change: IChange): object {
+    return {
+        ...changeToJson(change, change.notes),
+        notesByProject: change.notesByProject,
+        reason: change.inclusionReason,
+    };
+}
+
+// What --check tells you, as data, for release tooling to consume
+export function makeCheckReport(
+    projectName: string, changes: ChangesByProject, fromVer: string, toVer: string,
+    changeTypes: ChangeTypeConfig[], currentVersion: string | null,
+): ICheckReport {
+    const projectNames = [projectName, ...Object.keys(changes).filter(p => p !== projectName)];
+    const allChanges = [].concat(...Object.values(changes)) as IChange[];
+
+    const next = currentVersion ? incrementVersion(currentVersion, getBumpType(allChanges, changeTypes)) : null;
+
+    return {
+        project: projectName,
+        from: fromVer,
+        to: toVer,
+        projects: projectNames.map(name => ({
+            name,
+            included: changes[name].filter(c => c.shouldInclude).map(checkChangeToJson),
+            omitted: changes[name].filter(c => !c.shouldInclude).map(checkChangeToJson),
+        })),
+        breakingChanges: allChanges.filter(c => getChangeBumpType(c, changeTypes) === 'major').length,
+        features: allChanges.filter(c => getChangeBumpType(c, changeTypes) === 'minor').length,
+        bump: next ? next.bump : getBumpType(allChanges, changeTypes),
+        currentVersion,
+        nextVersion: next ? next.version : null,
+    };
+}
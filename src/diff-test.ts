@@ -0,0 +1,65 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { unifiedDiff } from './diff';
+
+const lines = (n: number, prefix = 'line') => Array.from({ length: n }, (_, i) => `${prefix} ${i + 1}`);
+
+test('No diff between the same texts', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb\n', 'old', 'new')).toEqual('');
+});
+
+test('Changes with context', () => {
+    const before = lines(20);
+    const after = [...before];
+    after.splice(1, 1, 'changed 2');
+    after.splice(15, 0, 'added');
+
+    expect(unifiedDiff(before.join("\n") + "\n", after.join("\n") + "\n", 'a/llama', 'b/llama')).toEqual([
+        '--- a/llama',
+        '+++ b/llama',
+        '@@ -1,5 +1,5 @@',
+        ' line 1',
+        '-line 2',
+        '+changed 2',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+        '@@ -13,6 +13,7 @@',
+        ' line 13',
+        ' line 14',
+        ' line 15',
+        '+added',
+        ' line 16',
+        ' line 17',
+        ' line 18',
+        '',
+    ].join("\n"));
+});
+
+test('Nearby changes share a hunk', () => {
+    const before = lines(10);
+    const after = before.filter(l => l !== 'line 3' && l !== 'line 8');
+
+    expect(unifiedDiff(before.join("\n"), after.join("\n"), 'a', 'b').split("\n").slice(2, 4)).toEqual([
+        '@@ -1,10 +1,8 @@',
+        ' line 1',
+    ]);
+});
+
+test('Adding to an empty text', () => {
+    expect(unifiedDiff('', 'llama\n', 'a', 'b')).toEqual('--- a\n+++ b\n@@ -0,0 +1,1 @@\n+llama\n');
+});
@@ -0,0 +1,129 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+interface IDiffLine {
+    // ' ' for a line in both, '-' for one that's only in the old text and '+' for one only in the new
+    type: ' ' | '-' | '+';
+    line: string;
+}
+
+// Above this, we don't try to find the smallest diff between the parts of the texts that differ,
+// which takes this much memory and time: the whole lot is taken out and put back instead
+const MAX_LCS_CELLS = 4000000;
+
+function splitLines(text: string): string[] {
+    const lines = text.split("\n");
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+// The smallest set of lines to take out and put in to get from one to the other, by way of
+// their longest common subsequence
+function diffLines(before: string[], after: string[]): IDiffLine[] {
+    const n = before.length;
+    const m = after.length;
+    if (n * m > MAX_LCS_CELLS) {
+        return [
+            ...before.map(line => ({ type: '-', line } as IDiffLine)),
+            ...after.map(line => ({ type: '+', line } as IDiffLine)),
+        ];
+    }
+
+    // lcs[i][j] is the length of the longest common subsequence of before[i..] and after[j..]
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; --i) {
+        for (let j = m - 1; j >= 0; --j) {
+            lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: IDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && before[i] === after[j]) {
+            lines.push({ type: ' ', line: before[i++] });
+            j++;
+        } else if (j >= m || (i < n && lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push({ type: '-', line: before[i++] });
+        } else {
+            lines.push({ type: '+', line: after[j++] });
+        }
+    }
+    return lines;
+}
+
+// A unified diff from one text to another, as `diff -u` would print it, with the given number of
+// lines of context around each change. Empty if the texts are the same.
+export function unifiedDiff(before: string, after: string, beforeName: string, afterName: string, context = 3): string {
+    const beforeLines = splitLines(before);
+    const afterLines = splitLines(after);
+
+    // changelogs change at one end or the other, so only diff the part in between
+    let prefix = 0;
+    while (
+        prefix < beforeLines.length && prefix < afterLines.length && beforeLines[prefix] === afterLines[prefix]
+    ) ++prefix;
+    let suffix = 0;
+    while (
+        suffix < beforeLines.length - prefix && suffix < afterLines.length - prefix &&
+        beforeLines[beforeLines.length - 1 - suffix] === afterLines[afterLines.length - 1 - suffix]
+    ) ++suffix;
+
+    const lines: IDiffLine[] = [
+        ...beforeLines.slice(0, prefix).map(line => ({ type: ' ', line } as IDiffLine)),
+        ...diffLines(
+            beforeLines.slice(prefix, beforeLines.length - suffix),
+            afterLines.slice(prefix, afterLines.length - suffix),
+        ),
+        ...beforeLines.slice(beforeLines.length - suffix).map(line => ({ type: ' ', line } as IDiffLine)),
+    ];
+
+    // group the changes into hunks, merging any close enough that their context would overlap
+    const hunks: [number, number][] = [];
+    lines.forEach((line, index) => {
+        if (line.type === ' ') return;
+        const last = hunks[hunks.length - 1];
+        if (last && index - last[1] <= context * 2 + 1) {
+            last[1] = index;
+        } else {
+            hunks.push([index, index]);
+        }
+    });
+    if (hunks.length === 0) return '';
+
+    // how many lines of each text come before each diff line
+    const beforeCounts = [0];
+    const afterCounts = [0];
+    for (const line of lines) {
+        beforeCounts.push(beforeCounts[beforeCounts.length - 1] + (line.type === '+' ? 0 : 1));
+        afterCounts.push(afterCounts[afterCounts.length - 1] + (line.type === '-' ? 0 : 1));
+    }
+    // as diff does, a hunk with no lines from one side says it starts at the line before
+    const range = (counts: number[], from: number, to: number) => {
+        const count = counts[to] - counts[from];
+        return `${counts[from] + (count > 0 ? 1 : 0)},${count}`;
+    };
+
+    const output = [`--- ${beforeName}`, `+++ ${afterName}`];
+    for (const [first, last] of hunks) {
+        const from = Math.max(0, first - context);
+        const to = Math.min(lines.length, last + context + 1);
+        output.push(`@@ -${range(beforeCounts, from, to)} +${range(afterCounts, from, to)} @@`);
+        output.push(...lines.slice(from, to).map(l => l.type + l.line));
+    }
+    return output.join("\n") + "\n";
+}
@@ -0,0 +1,79 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ChangeType, DEFAULT_CHANGE_TYPES, IChange } from './changes';
+import { describeInclusionReason, explainChange, findPrChanges, parsePrRef } from './explain';
+import { mockChange, mockPr } from './test-utils';
+
+function mockFix(number: number, repo: string): IChange {
+    return mockChange({
+        pr: mockPr(number, repo),
+        notes: 'Fix the llama',
+        inclusionReason: { type: 'included-by-default', via: ['llamalist'] },
+    });
+}
+
+test('Parsing PR references', () => {
+    expect(parsePrRef('123')).toEqual({ number: 123 });
+    expect(parsePrRef('#123')).toEqual({ number: 123 });
+    expect(parsePrRef('https://github.com/bert/llama-core/pull/123'))
+        .toEqual({ owner: 'bert', repo: 'llama-core', number: 123 });
+    expect(parsePrRef('https://gitlab.example.com/bert/group/llama-core/-/merge_requests/7'))
+        .toEqual({ owner: 'bert/group', repo: 'llama-core', number: 7 });
+    expect(() => parsePrRef('llama')).toThrow();
+});
+
+test('Finding PRs in subprojects', () => {
+    const changes = {
+        'llamalist': [mockFix(1, 'llamalist'), mockFix(2, 'llamalist')],
+        'llama-core': [mockFix(2, 'llama-core')],
+    };
+
+    expect(findPrChanges(changes, parsePrRef('1')).map(([p]) => p)).toEqual(['llamalist']);
+    expect(findPrChanges(changes, parsePrRef('2')).map(([p]) => p)).toEqual(['llamalist', 'llama-core']);
+    expect(findPrChanges(changes, parsePrRef('https://github.com/bert/llama-core/pull/2')).map(([p]) => p))
+        .toEqual(['llama-core']);
+    expect(findPrChanges(changes, parsePrRef('3'))).toEqual([]);
+});
+
+test('Describing why changes are omitted', () => {
+    const change = mockFix(2, 'llama-core');
+    change.shouldInclude = false;
+    change.notesByProject = { 'llama-web': 'Fix the llama in the web app' };
+    change.inclusionReason = {
+        type: 'excluded-by-default',
+        via: ['llamalist', 'llama-web', 'llama-core'],
+        excludedBy: 'llama-web',
+    };
+
+    expect(describeInclusionReason(change, DEFAULT_CHANGE_TYPES)).toEqual(
+        "llama-web isn't included in llamalist's changelog by default (includeByDefault is false), " +
+        "and it has no 'llamalist notes:' line",
+    );
+    expect(explainChange('llama-core', change, DEFAULT_CHANGE_TYPES)).toEqual([
+        'PR #2 in llama-core: https://github.com/bert/llama-core/pull/2',
+        '\tPulled in via: llamalist → llama-web → llama-core',
+        '\tType: bugfix (Bug Fixes)',
+        '\tNotes: Fix the llama',
+        '\tllama-web notes: Fix the llama in the web app',
+        "\tOmitted in llamalist's changelog because llama-web isn't included in llamalist's changelog by default " +
+        "(includeByDefault is false), and it has no 'llamalist notes:' line",
+    ]);
+
+    change.changeType = ChangeType.TASK;
+    change.inclusionReason = { type: 'type-not-in-changelog', via: ['llamalist'] };
+    expect(describeInclusionReason(change, DEFAULT_CHANGE_TYPES)).toEqual("Internal Changes don't go in the changelog");
+});
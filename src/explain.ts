@@ -0,0 +1,109 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ChangeTypeConfig, getChangeTypeConfig, getChangeUrl, IChange } from './changes';
+import { ChangesByProject } from './projects';
+
+// eg. https://github.com/owner/repo/pull/123 or https://gitlab.example.com/group/repo/-/merge_requests/123
+const PR_URL_REGEXP = /^https?:\/\/[^/]+\/(.+?)\/([^/]+)\/(?:-\/)?(?:pull|pulls|merge_requests)\/(\d+)\/?$/;
+
+export interface IPrRef {
+    // Only set if the PR was given as a URL, so we know which project it's from
+    owner?: string;
+    repo?: string;
+    number: number;
+}
+
+export function parsePrRef(ref: string): IPrRef {
+    let matches: RegExpMatchArray;
+    if (matches = ref.match(PR_URL_REGEXP)) {
+        return { owner: matches[1], repo: matches[2], number: parseInt(matches[3]) };
+    } else if (matches = ref.match(/^[#!]?(\d+)$/)) {
+        return { number: parseInt(matches[1]) };
+    }
+    throw new Error(`${ref} isn't a PR number or URL`);
+}
+
+function matchesPrRef(change: IChange, prRef: IPrRef): boolean {
+    if (!change.pr || change.pr.number !== prRef.number) return false;
+    if (prRef.owner === undefined) return true;
+
+    const baseRepo = change.pr.base.repo;
+    return baseRepo.owner.login === prRef.owner && baseRepo.name === prRef.repo;
+}
+
+// The changes for the PR in every project it might be in: PR numbers are only unique within a project
+export function findPrChanges(changes: ChangesByProject, prRef: IPrRef): [string, IChange][] {
+    const found: [string, IChange][] = [];
+    for (const [projectName, projectChanges] of Object.entries(changes)) {
+        for (const change of projectChanges.filter(c => matchesPrRef(c, prRef))) {
+            found.push([projectName, change]);
+        }
+    }
+    return found;
+}
+
+export function describeInclusionReason(change: IChange, changeTypes: ChangeTypeConfig[]): string {
+    const reason = change.inclusionReason;
+    const forProject = reason.via[0];
+    const fromProject = reason.via[reason.via.length - 1];
+
+    switch (reason.type) {
+        case 'no-type':
+            if (change.changeType === null) return "it doesn't have a type";
+            return `its type, '${change.changeType}', isn't one of ${forProject}'s change types`;
+        case 'type-not-in-changelog':
+            return `${getChangeTypeConfig(change.changeType, changeTypes).header} don't go in the changelog`;
+        case 'notes-none':
+            return "it says 'Notes: none'";
+        case 'project-notes-none':
+            return `it says '${forProject} notes: none'`;
+        case 'project-notes':
+            return `it has notes for ${forProject}`;
+        case 'included-by-default':
+            if (reason.via.length === 1) return `changes to ${forProject} are included by default`;
+            return `changes from ${fromProject} are included in ${forProject}'s changelog by default`;
+        case 'excluded-by-default':
+            return (
+                `${reason.excludedBy} isn't included in ${forProject}'s changelog by default ` +
+                `(includeByDefault is false), and it has no '${forProject} notes:' line`
+            );
+    }
+}
+
+// Traces how a change got to the changelog's project, and what happened to it when it got there
+export function explainChange(projectName: string, change: IChange, changeTypes: ChangeTypeConfig[]): string[] {
+    const reason = change.inclusionReason;
+    const changeType = getChangeTypeConfig(change.changeType, changeTypes);
+    const lines = [`PR #${change.pr.number} in ${projectName}: ${getChangeUrl(change)}`];
+
+    if (reason.via.length > 1) {
+        lines.push(`\tPulled in via: ${reason.via.join(' → ')}`);
+    }
+    lines.push(`\tType: ${change.changeType === null ? '<none>' : change.changeType}` +
+        (changeType ? ` (${changeType.header})` : ''));
+    if (change.breaking) lines.push('\tBreaking: yes');
+    lines.push(`\tNotes: ${change.notes === null ? '<none>' : change.notes}`);
+    for (const [proj, note] of Object.entries(change.notesByProject)) {
+        lines.push(`\t${proj} notes: ${note === null ? '<none>' : note}`);
+    }
+    lines.push(
+        `\t${change.shouldInclude ? 'Included' : 'Omitted'} in ${reason.via[0]}'s changelog because ` +
+        describeInclusionReason(change, changeTypes),
+    );
+
+    return lines;
+}
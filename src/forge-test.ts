@@ -0,0 +1,210 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { detectForgeType, makeForge, parseRepositoryUrl } from './forge';
+import { GiteaForge } from './gitea';
+import { GitHubForge } from './github';
+import { GitLabForge } from './gitlab';
+import { HttpError } from './request';
+
+// Stands in for a forge's API: each endpoint gives the response it's mapped to, and any other is a 404
+function mockRequest(responses: Record<string, any>) {
+    return jest.fn(async (endpoint: string) => {
+        if (!(endpoint in responses)) throw new HttpError(404, `Request to ${endpoint} failed with status 404`);
+        return responses[endpoint];
+    });
+}
+
+test('Repository URL parsed from the forms npm allows', () => {
+    for (const url of [
+        'https://github.com/matrix-org/allchange',
+        'https://github.com/matrix-org/allchange.git',
+        'git+https://github.com/matrix-org/allchange.git',
+        'git@github.com:matrix-org/allchange.git',
+    ]) {
+        expect(parseRepositoryUrl(url)).toEqual({
+            baseUrl: 'https://github.com',
+            host: 'github.com',
+            owner: 'matrix-org',
+            repo: 'allchange',
+        });
+    }
+});
+
+test('GitLab subgroups end up in the owner', () => {
+    expect(parseRepositoryUrl('https://gitlab.example.com/group/subgroup/project')).toEqual({
+        baseUrl: 'https://gitlab.example.com',
+        host: 'gitlab.example.com',
+        owner: 'group/subgroup',
+        repo: 'project',
+    });
+});
+
+test('Forge type detected from host', () => {
+    expect(detectForgeType(parseRepositoryUrl('https://github.com/a/b'))).toEqual('github');
+    expect(detectForgeType(parseRepositoryUrl('https://gitlab.example.com/a/b'))).toEqual('gitlab');
+    expect(detectForgeType(parseRepositoryUrl('https://gitea.example.com/a/b'))).toEqual('gitea');
+    expect(detectForgeType(parseRepositoryUrl('https://codeberg.org/a/b'))).toEqual('gitea');
+    expect(() => detectForgeType(parseRepositoryUrl('https://git.example.com/a/b'))).toThrow();
+});
+
+test('Forges build URLs', () => {
+    const github = makeForge(parseRepositoryUrl('https://github.com/a/b'));
+    expect(github.prUrl(12)).toEqual('https://github.com/a/b/pull/12');
+    expect(github.releaseUrl('v1.0.0')).toEqual('https://github.com/a/b/releases/tag/v1.0.0');
+
+    const gitlab = makeForge(parseRepositoryUrl('https://git.example.com/a/b'), 'gitlab');
+    expect(gitlab.prUrl(12)).toEqual('https://git.example.com/a/b/-/merge_requests/12');
+    expect(gitlab.issueUrl('a', 'b', 3)).toEqual('https://git.example.com/a/b/-/issues/3');
+
+    const gitea = makeForge(parseRepositoryUrl('https://codeberg.org/a/b'));
+    expect(gitea.prUrl(12)).toEqual('https://codeberg.org/a/b/pulls/12');
+    expect(gitea.commitUrl('abc')).toEqual('https://codeberg.org/a/b/commit/abc');
+});
+
+test('GitLab MRs fetched by number, skipping any that do not exist', async () => {
+    const gitlab = new GitLabForge(parseRepositoryUrl('https://gitlab.example.com/a/b'));
+    const request = mockRequest({
+        '/merge_requests/1': {
+            iid: 1,
+            title: 'Fix the llama',
+            description: 'Notes: Fixed the llama',
+            labels: ['T-Defect'],
+            web_url: 'https://gitlab.example.com/a/b/-/merge_requests/1',
+            merge_commit_sha: 'sha1',
+            squash_commit_sha: null,
+            author: { id: 7, username: 'alice' },
+        },
+        '/merge_requests/2': {
+            iid: 2,
+            title: 'Merged elsewhere',
+            labels: [],
+            merge_commit_sha: 'other',
+            squash_commit_sha: null,
+            author: { id: 7, username: 'alice' },
+        },
+    });
+    gitlab['request'] = request;
+
+    const prs = await gitlab.getPrInfo([
+        { PrNumber: 1, sha: 'sha1' },
+        { PrNumber: 2, sha: 'sha2' },
+        { PrNumber: 3, sha: 'sha3' },
+    ]);
+    expect(prs).toEqual([expect.objectContaining({
+        number: 1,
+        title: 'Fix the llama',
+        body: 'Notes: Fixed the llama',
+        labels: [{ name: 'T-Defect' }],
+        html_url: 'https://gitlab.example.com/a/b/-/merge_requests/1',
+        merge_commit_sha: 'sha1',
+        user: { login: 'alice' },
+        // alice isn't in the project's members
+        author_association: 'CONTRIBUTOR',
+    })]);
+    expect(request).toHaveBeenCalledWith('/merge_requests/3');
+});
+
+test('GitLab errors other than missing MRs are not ignored', async () => {
+    const gitlab = new GitLabForge(parseRepositoryUrl('https://gitlab.example.com/a/b'));
+    gitlab['request'] = jest.fn(async () => {
+        throw new HttpError(500, 'Request failed with status 500');
+    });
+    await expect(gitlab.getPrInfo([{ PrNumber: 1, sha: 'sha1' }])).rejects.toThrow('status 500');
+});
+
+test('GitLab releases and updated MRs paged through', async () => {
+    const gitlab = new GitLabForge(parseRepositoryUrl('https://gitlab.example.com/a/b'));
+    const firstPage = Array.from({ length: 100 }, (_, i) => ({ tag_name: `v1.0.${100 - i}` }));
+    const since = new Date('2021-06-01T00:00:00Z');
+    const updatedQuery = `/merge_requests?state=merged&updated_after=${since.toISOString()}&per_page=100`;
+    gitlab['request'] = mockRequest({
+        '/releases?per_page=100&page=1': firstPage,
+        '/releases?per_page=100&page=2': [{ tag_name: 'v1.0.0-rc.1' }],
+        [`${updatedQuery}&page=1`]: [{ iid: 4 }, { iid: 5 }],
+    });
+
+    const releases = await gitlab.getReleases();
+    expect(releases.length).toEqual(101);
+    expect(releases[0]).toEqual({ name: 'v1.0.100', tag_name: 'v1.0.100', prerelease: false });
+    expect(releases[100]).toEqual({ name: 'v1.0.0-rc.1', tag_name: 'v1.0.0-rc.1', prerelease: true });
+
+    expect(await gitlab.getPrsUpdatedSince(since, 500)).toEqual([4, 5]);
+    expect(await gitlab.getPrsUpdatedSince(since, 1)).toEqual(null);
+});
+
+test('Gitea PRs fetched by number, skipping numbers that are not PRs', async () => {
+    const gitea = new GiteaForge(parseRepositoryUrl('https://codeberg.org/a/b'));
+    gitea['request'] = mockRequest({
+        '/pulls/1': {
+            number: 1,
+            title: 'Fix the llama',
+            merge_commit_sha: 'sha1',
+            user: { login: 'alice' },
+            base: { repo: { name: 'b', owner: { login: 'a' } } },
+        },
+        '/collaborators/alice': null,
+    });
+
+    // #2 is an issue, which the commit message mentioned in the same way as a PR
+    const prs = await gitea.getPrInfo([{ PrNumber: 1, sha: 'sha1' }, { PrNumber: 2, sha: 'sha1' }]);
+    expect(prs).toEqual([expect.objectContaining({
+        number: 1,
+        author_association: 'MEMBER',
+        base: { repo: { name: 'b', owner: { login: 'a', name: 'a' } } },
+    })]);
+});
+
+test('Gitea releases and updated PRs paged through', async () => {
+    const gitea = new GiteaForge(parseRepositoryUrl('https://codeberg.org/a/b'));
+    const firstPage = Array.from({ length: 50 }, (_, i) => ({
+        tag_name: `v1.0.${50 - i}`, prerelease: false, draft: false,
+    }));
+    gitea['request'] = mockRequest({
+        '/releases?limit=50&page=1': firstPage,
+        '/releases?limit=50&page=2': [{ tag_name: 'v1.0.0', prerelease: false, draft: true }],
+        '/pulls?state=closed&sort=recentupdate&limit=50&page=1': [
+            { number: 6, updated_at: '2021-06-03T00:00:00Z' },
+            { number: 5, updated_at: '2021-06-02T00:00:00Z' },
+            { number: 4, updated_at: '2021-05-01T00:00:00Z' },
+        ],
+    });
+
+    const releases = await gitea.getReleases();
+    expect(releases.length).toEqual(51);
+    expect(releases[50]).toEqual({ name: 'v1.0.0', tag_name: 'v1.0.0', prerelease: false, draft: true });
+
+    // they come most recently updated first, so stop at the first that's too old
+    expect(await gitea.getPrsUpdatedSince(new Date('2021-06-01T00:00:00Z'), 500)).toEqual([6, 5]);
+    // and give up if there are too many to be worth listing
+    expect(await gitea.getPrsUpdatedSince(new Date('2021-06-01T00:00:00Z'), 1)).toEqual(null);
+});
+
+test('GitHub advisory CVEs looked up, doing without if the lookup fails', async () => {
+    const github = new GitHubForge(parseRepositoryUrl('https://github.com/a/b'));
+    const request = jest.fn(async (route: string, { ghsa_id: id }) => {
+        if (id === 'GHSA-aaaa-bbbb-cccc') return { data: { cve_id: 'CVE-2021-12345' } };
+        if (id === 'GHSA-dddd-eeee-ffff') throw Object.assign(new Error('Not Found'), { status: 404 });
+        throw Object.assign(new Error('getaddrinfo ENOTFOUND api.github.com'), { code: 'ENOTFOUND' });
+    });
+    Object.assign(github, { octo: { request } });
+
+    expect(await github.getAdvisoryCve('GHSA-aaaa-bbbb-cccc')).toEqual('CVE-2021-12345');
+    // unpublished, so we can't see it
+    expect(await github.getAdvisoryCve('GHSA-dddd-eeee-ffff')).toEqual(null);
+    // offline
+    expect(await github.getAdvisoryCve('GHSA-gggg-hhhh-jjjj')).toEqual(null);
+});
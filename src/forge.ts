@@ -0,0 +1,137 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fsProm from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+
+import { MergeCommit, PrInfo } from './changes';
+import { Releases } from './releases';
+import { GitHubForge } from './github';
+import { GitLabForge } from './gitlab';
+import { GiteaForge } from './gitea';
+
+export type ForgeType = 'github' | 'gitlab' | 'gitea';
+
+export interface IRepository {
+    // eg. 'https://github.com'
+    baseUrl: string;
+    host: string;
+    // On GitLab, this can be a path of nested groups
+    owner: string;
+    repo: string;
+}
+
+// Everything we need from wherever a project's code is hosted
+export interface Forge {
+    readonly type: ForgeType;
+    readonly repository: IRepository;
+    // Regexps whose first group is the PR number in a merge (or squash) commit message
+    readonly prNumberRegexps: RegExp[];
+
+    // Gets info on the PRs for the given merge commits. The objects returned by forges other
+    // than GitHub only have the fields we use filled in.
+    getPrInfo(mergeCommits: MergeCommit[]): Promise<PrInfo[]>;
+    // The numbers of the closed PRs that have been updated since the given time, or null if there
+    // are more than the limit, so it isn't worth listing them all
+    getPrsUpdatedSince(since: Date, limit: number): Promise<number[] | null>;
+    // The project's releases, newest first. Again, forges other than GitHub only fill in
+    // the fields we use.
+    getReleases(): Promise<Releases>;
+    // The CVE identifier of one of the project's GitHub security advisories, if it has one
+    getAdvisoryCve(ghsaId: string): Promise<string | null>;
+
+    prUrl(prNumber: number): string;
+    issueUrl(owner: string, repo: string, issueNumber: number): string;
+    releaseUrl(tag: string): string;
+    commitUrl(sha: string): string;
+}
+
+export function parseRepositoryUrl(url: string): IRepository {
+    // Handle the various forms npm accepts, eg. 'git+https://github.com/owner/repo.git'
+    // and 'git@github.com:owner/repo.git'
+    let normalised = url.trim().replace(/^git\+/, '').replace(/\.git$/, '').replace(/\/$/, '');
+    const sshMatches = normalised.match(/^(?:ssh:\/\/)?git@([^:/]+)[:/](.*)$/);
+    if (sshMatches) normalised = `https://${sshMatches[1]}/${sshMatches[2]}`;
+
+    const matches = normalised.match(/^(https?:\/\/([^/]+))\/(.+)\/([^/]+)$/);
+    if (!matches) {
+        throw new Error(`Can't parse repository URL ${url}`);
+    }
+
+    return {
+        baseUrl: matches[1],
+        host: matches[2],
+        owner: matches[3],
+        repo: matches[4],
+    };
+}
+
+function originUrl(repoDir: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', ['remote', 'get-url', 'origin'], {
+            cwd: repoDir,
+        }, (error, stdout) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(stdout.trim());
+            }
+        });
+    });
+}
+
+// Where the project in the given directory is hosted: from package.json if it has one, otherwise
+// from its git remote, for projects that aren't JavaScript
+export async function repositoryFromDir(repoDir: string): Promise<IRepository> {
+    let pkgJsonText: string;
+    try {
+        pkgJsonText = await fsProm.readFile(path.join(repoDir, 'package.json'), { encoding: 'utf8' });
+    } catch (e) {
+        if (e.code !== 'ENOENT') throw e;
+        return parseRepositoryUrl(await originUrl(repoDir));
+    }
+    const pkgJson = JSON.parse(pkgJsonText);
+
+    if (!pkgJson.repository || pkgJson.repository.type !== 'git') {
+        throw new Error(repoDir + " doesn't have a 'git' type repo in package.json!");
+    }
+
+    return parseRepositoryUrl(pkgJson.repository.url);
+}
+
+export function detectForgeType(repository: IRepository): ForgeType {
+    if (repository.host === 'github.com') return 'github';
+    if (repository.host.includes('gitlab')) return 'gitlab';
+    if (repository.host.includes('gitea') || repository.host === 'codeberg.org') return 'gitea';
+
+    throw new Error(
+        `Can't tell what sort of forge ${repository.host} is: set 'forge' in release_config.yaml`,
+    );
+}
+
+export function makeForge(repository: IRepository, forgeType?: ForgeType): Forge {
+    switch (forgeType ?? detectForgeType(repository)) {
+        case 'github':
+            return new GitHubForge(repository);
+        case 'gitlab':
+            return new GitLabForge(repository);
+        case 'gitea':
+            return new GiteaForge(repository);
+        default:
+            throw new Error(`Unknown forge type ${forgeType}`);
+    }
+}
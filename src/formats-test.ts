@@ -0,0 +1,289 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { getCredits, getHighlights, groupChanges, IChangelogContext } from './changelog';
+import { ChangeType, DEFAULT_CHANGE_TYPES, IChange } from './changes';
+import { makeForge, parseRepositoryUrl } from './forge';
+import { getRenderer, makeTemplateRenderer } from './formats';
+import { Project } from './projects';
+import { mockChange, mockPr } from './test-utils';
+
+function mockPrChange(number: number, changeType: string, notes: string): IChange {
+    return mockChange({ pr: mockPr(number), changeType, notes });
+}
+
+function mockContext(version: string | null = '1.2.0'): IChangelogContext {
+    const changes = [
+        mockPrChange(1, ChangeType.FEATURE, 'Add a <llama>'),
+        mockPrChange(2, ChangeType.BUGFIX, 'Fix the llama'),
+        mockPrChange(3, ChangeType.TASK, 'Tidy up'),
+    ];
+    changes[1].fixes = [{ owner: 'bert', repo: 'llamalist', number: 10 }];
+    changes[1].pr.author_association = 'CONTRIBUTOR';
+
+    return {
+        version,
+        tag: version === null ? null : 'v' + version,
+        date: new Date(2021, 6, 1, 12),
+        project: {
+            name: 'llamalist',
+            owner: 'bert',
+            repo: 'llamalist',
+            forge: makeForge(parseRepositoryUrl('https://github.com/bert/llamalist')),
+        } as Project,
+        changeTypes: DEFAULT_CHANGE_TYPES,
+        highlights: getHighlights(changes),
+        sections: groupChanges(changes, DEFAULT_CHANGE_TYPES),
+        credits: [],
+        excludedContributors: ['*[bot]'],
+    };
+}
+
+test('Markdown', () => {
+    expect(getRenderer('markdown')(mockContext())).toEqual([
+        'Changes in [1.2.0](https://github.com/bert/llamalist/releases/tag/v1.2.0) (2021-07-01)',
+        '======================================================================================',
+        '',
+        '## ✨ Features',
+        ' * Add a <llama> ([\\#1](https://github.com/bert/llamalist/pull/1)).',
+        '',
+        '## 🐛 Bug Fixes',
+        ' * Fix the llama ([\\#2](https://github.com/bert/llamalist/pull/2)). Fixes #10. Contributed by @bert.',
+        '',
+        '',
+    ].join("\n"));
+});
+
+test('Keep a Changelog', () => {
+    expect(getRenderer('keepachangelog')(mockContext())).toEqual([
+        '## [1.2.0] - 2021-07-01',
+        '',
+        '### Added',
+        '- Add a <llama> ([#1](https://github.com/bert/llamalist/pull/1)).',
+        '',
+        '### Fixed',
+        '- Fix the llama ([#2](https://github.com/bert/llamalist/pull/2)). Fixes #10. Contributed by @bert.',
+        '',
+        '[1.2.0]: https://github.com/bert/llamalist/releases/tag/v1.2.0',
+        '',
+    ].join("\n"));
+
+    expect(getRenderer('keepachangelog')(mockContext(null))).toMatch(/^## \[Unreleased\]\n/);
+});
+
+test('JSON', () => {
+    const output = JSON.parse(getRenderer('json')(mockContext()));
+
+    expect(output.version).toEqual('1.2.0');
+    expect(output.sections.map(s => s.id)).toEqual(['feature', 'bugfix']);
+    expect(output.sections[1].changes[0]).toMatchObject({
+        notes: 'Fix the llama',
+        pr: 2,
+        url: 'https://github.com/bert/llamalist/pull/2',
+        fixes: [{ owner: 'bert', repo: 'llamalist', number: 10 }],
+        contributor: 'bert',
+    });
+});
+
+test('HTML is escaped', () => {
+    const output = getRenderer('html')(mockContext());
+
+    expect(output).toContain(
+        '<li>Add a &lt;llama&gt; (<a href="https://github.com/bert/llamalist/pull/1">#1</a>).</li>',
+    );
+});
+
+test('AsciiDoc', () => {
+    const output = getRenderer('asciidoc')(mockContext());
+
+    expect(output).toContain('== https://github.com/bert/llamalist/releases/tag/v1.2.0[1.2.0] (2021-07-01)');
+    expect(output).toContain('* Add a <llama> (https://github.com/bert/llamalist/pull/1[#1]).');
+});
+
+test('Notes of several paragraphs are nested under the change', () => {
+    const context = mockContext();
+    const change = context.sections[0].changes[0];
+    change.notes = "Add a llama\nwith a name\n\n```js\nllama.name = 'Bert';\n\nllama.fly();\n```";
+
+    expect(getRenderer('markdown')(context)).toContain([
+        ' * Add a llama',
+        '   with a name ([\\#1](https://github.com/bert/llamalist/pull/1)).',
+        '',
+        '   ```js',
+        "   llama.name = 'Bert';",
+        '',
+        '   llama.fly();',
+        '   ```',
+        '',
+        '## 🐛 Bug Fixes',
+    ].join("\n"));
+    expect(getRenderer('keepachangelog')(context)).toContain([
+        '- Add a llama',
+        '  with a name ([#1](https://github.com/bert/llamalist/pull/1)).',
+        '',
+        '  ```js',
+    ].join("\n"));
+    expect(getRenderer('html')(context)).toContain(
+        "(<a href=\"https://github.com/bert/llamalist/pull/1\">#1</a>)." +
+        "<pre><code>llama.name = 'Bert';\n\nllama.fly();</code></pre></li>",
+    );
+    expect(getRenderer('asciidoc')(context)).toContain("+\n```js\nllama.name = 'Bert';\n\nllama.fly();\n```\n");
+});
+
+test('Highlights come first, in order', () => {
+    const context = mockContext();
+    const [feature, bugfix] = context.sections.map(section => section.changes[0]);
+    feature.headline = 'Llamas can fly\nUp to 20mph';
+    bugfix.headline = 'Llamas stay on the ground when asked';
+    bugfix.headlineOrder = 1;
+    context.highlights = getHighlights([feature, bugfix]);
+
+    const markdown = getRenderer('markdown')(context).split("\n");
+    expect(markdown.slice(3, 8)).toEqual([
+        '## ⭐ Highlights',
+        ' * Llamas stay on the ground when asked',
+        ' * Llamas can fly',
+        '   Up to 20mph',
+        '',
+    ]);
+    expect(getRenderer('html')(context)).toContain('<li>Llamas can fly<br>Up to 20mph</li>');
+    expect(JSON.parse(getRenderer('json')(context)).highlights).toEqual([
+        { headline: bugfix.headline, url: 'https://github.com/bert/llamalist/pull/2' },
+        { headline: feature.headline, url: 'https://github.com/bert/llamalist/pull/1' },
+    ]);
+
+    feature.shouldInclude = false;
+    expect(getHighlights([feature, bugfix])).toEqual([bugfix]);
+});
+
+test('Security fixes link to their advisories', () => {
+    const context = mockContext();
+    const change = context.sections[1].changes[0];
+    change.security = true;
+    change.advisories = ['CVE-2021-12345', 'GHSA-abcd-efgh-jkmp'];
+    context.sections = groupChanges([change], DEFAULT_CHANGE_TYPES);
+
+    expect(getRenderer('markdown')(context)).toContain(
+        ' * Fix the llama ([\\#2](https://github.com/bert/llamalist/pull/2)). ' +
+        'Fixes [CVE-2021-12345](https://www.cve.org/CVERecord?id=CVE-2021-12345), ' +
+        '[GHSA-abcd-efgh-jkmp](https://github.com/advisories/GHSA-abcd-efgh-jkmp) and #10. ' +
+        'Contributed by @bert.',
+    );
+    expect(getRenderer('keepachangelog')(context)).toContain('### Security');
+    expect(getRenderer('html')(context)).toContain(
+        'Fixes <a href="https://www.cve.org/CVERecord?id=CVE-2021-12345">CVE-2021-12345</a>, ',
+    );
+    expect(JSON.parse(getRenderer('json')(context)).sections[0].changes[0].advisories).toEqual(change.advisories);
+});
+
+test('Acknowledgements thank external contributors and co-authors', () => {
+    const context = mockContext();
+    const [feature, bugfix] = context.sections.map(section => section.changes[0]);
+    const task = mockPrChange(3, ChangeType.TASK, 'Tidy up');
+    task.pr.user.login = 'alice';
+    task.pr.author_association = 'FIRST_TIME_CONTRIBUTOR';
+    feature.coAuthors = [
+        { name: 'Bert', login: 'bert' },
+        { name: 'Carol Llama', login: null },
+        { name: 'Dependabot', login: 'dependabot[bot]' },
+    ];
+    bugfix.coAuthors = [{ name: 'Alice', login: 'alice' }];
+    const member = mockPrChange(4, ChangeType.FEATURE, 'Add an alpaca');
+    member.pr.user.login = 'dave';
+    member.coAuthors = [{ name: 'Dave', login: 'dave' }];
+    context.credits = getCredits([feature, bugfix, task, member], ['*[bot]']);
+
+    expect(context.credits).toEqual([
+        { login: 'alice', name: 'Alice', firstTime: true },
+        { login: 'bert', name: 'bert', firstTime: false },
+        { login: null, name: 'Carol Llama', firstTime: false },
+    ]);
+    expect(getRenderer('markdown')(context)).toContain([
+        '## 🙏 Acknowledgements',
+        ' * @alice (first contribution)',
+        ' * @bert',
+        ' * Carol Llama',
+        '',
+    ].join("\n"));
+    expect(getRenderer('keepachangelog')(context)).toContain("### Acknowledgements\n- @alice (first contribution)\n");
+    expect(getRenderer('html')(context)).toContain('<li>Carol Llama</li>');
+    expect(JSON.parse(getRenderer('json')(context)).credits).toEqual(context.credits);
+
+    task.shouldInclude = false;
+    expect(getCredits([feature, bugfix, task, member], ['*[bot]', 'carol llama']).map(c => c.name))
+        .toEqual(['Alice', 'bert']);
+});
+
+test('Excluded contributors not credited on their changes', () => {
+    const context = mockContext();
+    const bugfix = context.sections[1].changes[0];
+    bugfix.pr.user.login = 'dependabot[bot]';
+
+    expect(getRenderer('markdown')(context)).not.toContain('Contributed by');
+    expect(getRenderer('keepachangelog')(context)).not.toContain('Contributed by');
+    expect(getRenderer('html')(context)).not.toContain('Contributed by');
+    expect(JSON.parse(getRenderer('json')(context)).sections[1].changes[0].contributor).toBeNull();
+
+    context.excludedContributors = [];
+    expect(getRenderer('markdown')(context)).toContain('Contributed by @dependabot[bot].');
+});
+
+test('debian/changelog', () => {
+    process.env.DEBFULLNAME = 'Bert';
+    process.env.DEBEMAIL = 'bert@example.com';
+    const context = mockContext();
+    const output = getRenderer('debian')(context);
+
+    expect(output.split("\n")).toEqual([
+        'llamalist (1.2.0) unstable; urgency=medium',
+        '',
+        '  * Features:',
+        '    - Add a <llama> (#1).',
+        '  * Bug Fixes:',
+        '    - Fix the llama (#2). Fixes #10. Contributed by @bert.',
+        '',
+        ` -- Bert <bert@example.com>  ${context.date.toUTCString().replace('GMT', '+0000')}`,
+        '',
+    ]);
+
+    expect(() => getRenderer('debian')(mockContext(null))).toThrow(/needs a version/);
+});
+
+test('User-defined template', () => {
+    const render = makeTemplateRenderer([
+        '# {{project.name}} {{version}} ({{date}})',
+        '{{#sections}}',
+        '## {{title}}',
+        '{{#changes}}',
+        '- {{notes}} [{{linkText}}]({{url}}){{#contributor}}, thanks @{{contributor}}{{/contributor}}',
+        '{{/changes}}',
+        '{{/sections}}',
+        'Fixed: {{#fixedIssues}}{{text}} {{/fixedIssues}}',
+        'Contributors: {{#contributors}}{{.}} {{/contributors}}',
+        '',
+    ].join("\n"));
+
+    expect(render(mockContext())).toEqual([
+        '# llamalist 1.2.0 (2021-07-01)',
+        '## Features',
+        '- Add a <llama> [#1](https://github.com/bert/llamalist/pull/1)',
+        '## Bug Fixes',
+        '- Fix the llama [#2](https://github.com/bert/llamalist/pull/2), thanks @bert',
+        'Fixed: #10 ',
+        'Contributors: bert ',
+        '',
+    ].join("\n"));
+});
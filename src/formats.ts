@@ -0,0 +1,459 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fsProm from 'fs/promises';
+import path from 'path';
+
+import {
+    ACKNOWLEDGEMENTS_SECTION,
+    advisoryUrl,
+    BREAKING_SECTION,
+    changeLink,
+    ChangelogRenderer,
+    creditName,
+    engJoin,
+    externalContributor,
+    formatDate,
+    getReleaseUrl,
+    HIGHLIGHTS_SECTION,
+    IChangelogContext,
+    indentLines,
+    renderMarkdown,
+    SECURITY_SECTION,
+    splitNotes,
+    splitParagraphs,
+} from './changelog';
+import { ChangeTypeConfig, IChange } from './changes';
+import { formatIssue } from './issue';
+import { getChangeNotes, Project } from './projects';
+import { renderTemplate } from './template';
+
+export const CHANGELOG_FORMATS = ['markdown', 'keepachangelog', 'json', 'html', 'asciidoc', 'debian'] as const;
+export type ChangelogFormat = typeof CHANGELOG_FORMATS[number];
+
+// Keep a Changelog has a fixed set of sections: use them where we have an equivalent
+export const KEEP_A_CHANGELOG_SECTIONS = {
+    security: 'Security',
+    breaking: 'Changed',
+    feature: 'Added',
+    bugfix: 'Fixed',
+    deprecation: 'Deprecated',
+};
+
+// The section each title we write stands for, in either format, going by the title without any emoji
+export function sectionIdsByTitle(changeTypes: ChangeTypeConfig[]): Map<string, string> {
+    const ids = new Map<string, string>();
+    for (const [id, title] of Object.entries(KEEP_A_CHANGELOG_SECTIONS)) ids.set(title, id);
+    for (const changeType of changeTypes.filter(t => t.changelog)) ids.set(changeType.header, changeType.name);
+    for (const section of [SECURITY_SECTION, BREAKING_SECTION, HIGHLIGHTS_SECTION, ACKNOWLEDGEMENTS_SECTION]) {
+        ids.set(section.title, section.id);
+    }
+    return ids;
+}
+
+function notesFor(change: IChange, context: IChangelogContext): string {
+    return getChangeNotes(change, context.project.name, context.changeTypes);
+}
+
+// The notes' first paragraph, with any line breaks indented, and the rest of the notes, indented
+function indentedNotesFor(
+    change: IChange, context: IChangelogContext, indent: string,
+): { summary: string, details: string | null } {
+    const { summary, details } = splitNotes(notesFor(change, context));
+    return {
+        summary: summary.replace(/\n/g, "\n" + indent),
+        details: details === null ? null : indentLines(details, indent),
+    };
+}
+
+type LinkFormatter = (text: string, url: string) => string;
+
+const markdownLink: LinkFormatter = (text, url) => `[${text}](${url})`;
+
+// The link to where the change came from, or just its text for a change that has nowhere to link to
+function formatChangeLink(change: IChange, formatLink: LinkFormatter, escape = (text: string) => text): string {
+    const link = changeLink(change);
+    return link.url ? formatLink(link.text, link.url) : escape(link.text);
+}
+
+// The "Fixes CVE-2021-1234 and #2. Contributed by @bob." that goes after the notes for a change,
+// with vulnerabilities linked in the format's own way and the rest escaped for it
+function changeSuffix(
+    change: IChange, context: IChangelogContext, formatLink: LinkFormatter, escape = (text: string) => text,
+): string {
+    let suffix = '';
+    const fixes = [
+        ...change.advisories.map(id => formatLink(id, advisoryUrl(id))),
+        ...change.fixes.map(c => escape(formatIssue(c, context.project.owner, context.project.repo))),
+    ];
+    if (fixes.length > 0) {
+        suffix += ` Fixes ${engJoin(fixes)}.`;
+    }
+
+    const contributor = externalContributor(change, context.excludedContributors);
+    if (contributor) suffix += escape(` Contributed by @${contributor}.`);
+
+    return suffix;
+}
+
+function renderKeepAChangelog(context: IChangelogContext): string {
+    const lines: string[] = [];
+
+    if (context.version === null) {
+        lines.push('## [Unreleased]');
+    } else {
+        lines.push(`## [${context.version}] - ${formatDate(context.date)}`);
+    }
+    lines.push('');
+
+    if (context.highlights.length > 0) {
+        lines.push(`### ${HIGHLIGHTS_SECTION.title}`);
+        for (const change of context.highlights) {
+            lines.push('- ' + change.headline.split("\n").join("\n  "));
+        }
+        lines.push('');
+    }
+
+    for (const section of context.sections) {
+        lines.push(`### ${KEEP_A_CHANGELOG_SECTIONS[section.id] ?? section.title}`);
+        for (const change of section.changes) {
+            const { summary, details } = indentedNotesFor(change, context, '  ');
+            lines.push(
+                `- ${summary} (${formatChangeLink(change, markdownLink)}).` +
+                changeSuffix(change, context, markdownLink),
+            );
+            if (details) lines.push('', details);
+        }
+        lines.push('');
+    }
+
+    if (context.credits.length > 0) {
+        lines.push(`### ${ACKNOWLEDGEMENTS_SECTION.title}`);
+        for (const credit of context.credits) {
+            lines.push(`- ${creditName(credit)}` + (credit.firstTime ? ' (first contribution)' : ''));
+        }
+        lines.push('');
+    }
+
+    const releaseUrl = context.version === null ? null : getReleaseUrl(context);
+    if (releaseUrl !== null) {
+        lines.push(`[${context.version}]: ${releaseUrl}`);
+        lines.push('');
+    }
+
+    return lines.join("\n");
+}
+
+// A change as plain data, for JSON output
+export function changeToJson(change: IChange, notes: string | null, excludedContributors: string[] = []): object {
+    return {
+        notes,
+        url: changeLink(change).url,
+        pr: change.pr ? change.pr.number : null,
+        commit: change.commit ? change.commit.sha : null,
+        changeType: change.changeType,
+        scope: change.scope,
+        breaking: change.breaking,
+        security: change.security,
+        advisories: change.advisories,
+        headline: change.headline,
+        migration: change.migration,
+        fixes: change.fixes,
+        contributor: externalContributor(change, excludedContributors),
+        coAuthors: change.coAuthors ?? [],
+    };
+}
+
+function renderJson(context: IChangelogContext): string {
+    return JSON.stringify({
+        project: context.project.name,
+        version: context.version,
+        date: formatDate(context.date),
+        highlights: context.highlights.map(change => ({
+            headline: change.headline,
+            url: changeLink(change).url,
+        })),
+        sections: context.sections.map(section => ({
+            id: section.id,
+            title: section.title,
+            changes: section.changes.map(change => (
+                changeToJson(change, notesFor(change, context), context.excludedContributors)
+            )),
+        })),
+        credits: context.credits,
+    }, null, 4);
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// Notes are Markdown, which we don't render beyond keeping paragraphs and code blocks apart
+function htmlParagraph(paragraph: string): string {
+    const lines = paragraph.split("\n");
+    if (/^\s*(`{3,}|~{3,})/.test(lines[0])) {
+        return `<pre><code>${escapeHtml(lines.slice(1, -1).join("\n"))}</code></pre>`;
+    }
+    return `<p>${escapeHtml(paragraph)}</p>`;
+}
+
+const htmlLink: LinkFormatter = (text, url) => `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>`;
+
+function renderHtml(context: IChangelogContext): string {
+    const lines: string[] = [];
+
+    if (context.version !== null) {
+        const releaseUrl = getReleaseUrl(context);
+        lines.push(
+            `<h2>Changes in ` +
+            (releaseUrl ? htmlLink(context.version, releaseUrl) : escapeHtml(context.version)) +
+            ` (${formatDate(context.date)})</h2>`,
+        );
+    }
+
+    if (context.highlights.length > 0) {
+        lines.push(`<h3>${escapeHtml(`${HIGHLIGHTS_SECTION.emoji} ${HIGHLIGHTS_SECTION.title}`)}</h3>`);
+        lines.push('<ul>');
+        for (const change of context.highlights) {
+            lines.push(`<li>${change.headline.split("\n").map(escapeHtml).join('<br>')}</li>`);
+        }
+        lines.push('</ul>');
+    }
+
+    for (const section of context.sections) {
+        const title = section.emoji ? `${section.emoji} ${section.title}` : section.title;
+        lines.push(`<h3>${escapeHtml(title)}</h3>`);
+        lines.push('<ul>');
+        for (const change of section.changes) {
+            const { summary, details } = splitNotes(notesFor(change, context));
+            lines.push(
+                `<li>${escapeHtml(summary)} ` +
+                `(${formatChangeLink(change, htmlLink, escapeHtml)}).` +
+                `${changeSuffix(change, context, htmlLink, escapeHtml)}` +
+                (details === null ? '' : splitParagraphs(details).map(htmlParagraph).join('')) +
+                '</li>',
+            );
+        }
+        lines.push('</ul>');
+    }
+
+    if (context.credits.length > 0) {
+        lines.push(`<h3>${escapeHtml(`${ACKNOWLEDGEMENTS_SECTION.emoji} ${ACKNOWLEDGEMENTS_SECTION.title}`)}</h3>`);
+        lines.push('<ul>');
+        for (const credit of context.credits) {
+            lines.push(`<li>${escapeHtml(creditName(credit))}${credit.firstTime ? ' (first contribution)' : ''}</li>`);
+        }
+        lines.push('</ul>');
+    }
+
+    lines.push('');
+    return lines.join("\n");
+}
+
+const asciiDocLink: LinkFormatter = (text, url) => `${url}[${text}]`;
+
+function renderAsciiDoc(context: IChangelogContext): string {
+    const lines: string[] = [];
+
+    if (context.version !== null) {
+        const releaseUrl = getReleaseUrl(context);
+        const version = releaseUrl ? asciiDocLink(context.version, releaseUrl) : context.version;
+        lines.push(`== ${version} (${formatDate(context.date)})`);
+        lines.push('');
+    }
+
+    if (context.highlights.length > 0) {
+        lines.push(`=== ${HIGHLIGHTS_SECTION.emoji} ${HIGHLIGHTS_SECTION.title}`);
+        lines.push('');
+        for (const change of context.highlights) {
+            // a '+' line joins the next line onto the list item
+            lines.push('* ' + change.headline.split("\n").join(" +\n"));
+        }
+        lines.push('');
+    }
+
+    for (const section of context.sections) {
+        lines.push(`=== ${section.emoji ? `${section.emoji} ` : ''}${section.title}`);
+        lines.push('');
+        for (const change of section.changes) {
+            const { summary, details } = splitNotes(notesFor(change, context));
+            lines.push(
+                `* ${summary} (${formatChangeLink(change, asciiDocLink)}).` +
+                changeSuffix(change, context, asciiDocLink),
+            );
+            // each '+' attaches the paragraph after it to the list item
+            for (const paragraph of details === null ? [] : splitParagraphs(details)) {
+                lines.push('+', paragraph);
+            }
+        }
+        lines.push('');
+    }
+
+    if (context.credits.length > 0) {
+        lines.push(`=== ${ACKNOWLEDGEMENTS_SECTION.emoji} ${ACKNOWLEDGEMENTS_SECTION.title}`);
+        lines.push('');
+        for (const credit of context.credits) {
+            lines.push(`* ${creditName(credit)}` + (credit.firstTime ? ' (first contribution)' : ''));
+        }
+        lines.push('');
+    }
+
+    return lines.join("\n");
+}
+
+// The date format debian/changelog wants, eg. "Thu, 01 Jul 2021 12:00:00 +0000"
+function formatDebianDate(date: Date): string {
+    return date.toUTCString().replace('GMT', '+0000');
+}
+
+function renderDebian(context: IChangelogContext): string {
+    // dch uses these to say who's responsible for the package: so shall we
+    const maintainerName = process.env.DEBFULLNAME;
+    const maintainerEmail = process.env.DEBEMAIL;
+    if (!maintainerName || !maintainerEmail) {
+        throw new Error("Set DEBFULLNAME and DEBEMAIL to generate a debian/changelog entry");
+    }
+
+    // UNRELEASED is a distribution in debian/changelog, not a version, so there's nothing to put in
+    // place of the version if we don't have one
+    if (context.version === null) {
+        throw new Error("A debian/changelog entry needs a version: give the version it's for");
+    }
+
+    const urgency = context.sections.some(s => s.id === 'security') ? 'high' : 'medium';
+    const lines: string[] = [];
+
+    lines.push(`${context.project.name} (${context.version}) unstable; urgency=${urgency}`);
+    lines.push('');
+    // Highlights and acknowledgements are for people reading release notes rather than package
+    // changelogs, so they're left out
+    for (const section of context.sections) {
+        lines.push(`  * ${section.title}:`);
+        for (const change of section.changes) {
+            const link = changeLink(change);
+            const { summary, details } = indentedNotesFor(change, context, '      ');
+            lines.push(`    - ${summary} (${link.text}).` + changeSuffix(change, context, text => text));
+            if (details) lines.push(details);
+        }
+    }
+    lines.push('');
+    lines.push(` -- ${maintainerName} <${maintainerEmail}>  ${formatDebianDate(context.date)}`);
+    lines.push('');
+
+    return lines.join("\n");
+}
+
+// What a user-defined changelog template gets to work with
+export function makeTemplateView(context: IChangelogContext): object {
+    const { project } = context;
+    const issueView = issue => ({
+        ...issue,
+        text: formatIssue(issue, project.owner, project.repo),
+        url: project.forge ? project.forge.issueUrl(issue.owner, issue.repo, issue.number) : null,
+    });
+
+    const contributors = new Set<string>();
+    const fixedIssues = new Map<string, object>();
+    const sections = context.sections.map(section => ({
+        id: section.id,
+        title: section.title,
+        emoji: section.emoji,
+        changes: section.changes.map(change => {
+            const link = changeLink(change);
+            const contributor = externalContributor(change, context.excludedContributors);
+            if (contributor) contributors.add(contributor);
+            for (const issue of change.fixes) {
+                fixedIssues.set(`${issue.owner}/${issue.repo}#${issue.number}`, issueView(issue));
+            }
+
+            const { summary, details } = splitNotes(notesFor(change, context));
+            return {
+                notes: notesFor(change, context),
+                summary,
+                details,
+                url: link.url,
+                linkText: link.text,
+                pr: change.pr ? change.pr.number : null,
+                commit: change.commit ? change.commit.sha : null,
+                changeType: change.changeType,
+                scope: change.scope,
+                breaking: change.breaking,
+                security: change.security,
+                advisories: change.advisories.map(id => ({ id, url: advisoryUrl(id) })),
+                headline: change.headline,
+                migration: change.migration,
+                fixes: change.fixes.map(issueView),
+                fixesText: engJoin(change.fixes.map(issue => formatIssue(issue, project.owner, project.repo))),
+                contributor,
+            };
+        }),
+    }));
+
+    return {
+        version: context.version,
+        date: formatDate(context.date),
+        preview: context.version === null,
+        project: {
+            name: project.name,
+            owner: project.owner,
+            repo: project.repo,
+        },
+        releaseUrl: context.version === null ? null : getReleaseUrl(context),
+        highlights: context.highlights.map(change => ({
+            headline: change.headline,
+            lines: change.headline.split("\n"),
+            url: changeLink(change).url,
+            linkText: changeLink(change).text,
+        })),
+        sections,
+        contributors: [...contributors],
+        credits: context.credits.map(credit => ({ ...credit, text: creditName(credit) })),
+        fixedIssues: [...fixedIssues.values()],
+    };
+}
+
+export function makeTemplateRenderer(template: string): ChangelogRenderer {
+    return context => renderTemplate(template, makeTemplateView(context));
+}
+
+const RENDERERS: Record<ChangelogFormat, ChangelogRenderer> = {
+    markdown: renderMarkdown,
+    keepachangelog: renderKeepAChangelog,
+    json: renderJson,
+    html: renderHtml,
+    asciidoc: renderAsciiDoc,
+    debian: renderDebian,
+};
+
+export function getRenderer(format: ChangelogFormat): ChangelogRenderer {
+    return RENDERERS[format];
+}
+
+// The renderer to use for a project's changelog: markdown means the project's own
+// template, if it has one
+export async function getProjectRenderer(project: Project, format: ChangelogFormat): Promise<ChangelogRenderer> {
+    if (format !== 'markdown') return getRenderer(format);
+
+    const releaseConfig = await project.getReleaseCfg(project.dir);
+    if (!releaseConfig.changelogTemplate) return renderMarkdown;
+
+    const template = await fsProm.readFile(path.join(project.dir, releaseConfig.changelogTemplate), 'utf8');
+    return makeTemplateRenderer(template);
+}
@@ -0,0 +1,145 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import log from 'loglevel';
+
+import { MergeCommit, PrInfo } from './changes';
+import { Forge, ForgeType, IRepository } from './forge';
+import { Releases } from './releases';
+import { HttpError, requestJson } from './request';
+
+// Gitea's merge commits look like "Merge pull request 'Title' (#1234) from branch into main"
+// and its squash merges like GitHub's, "Title (#1234)"
+const PR_NUMBER_REGEXP = /\(#(\d+)\)/;
+
+export class GiteaForge implements Forge {
+    public readonly type: ForgeType = 'gitea';
+    public readonly prNumberRegexps = [PR_NUMBER_REGEXP];
+    private readonly apiUrl: string;
+    private authorAssociations = new Map<string, string>();
+
+    constructor(public readonly repository: IRepository) {
+        this.apiUrl = `${repository.baseUrl}/api/v1/repos/${repository.owner}/${repository.repo}`;
+    }
+
+    private request<T = any>(endpoint: string): Promise<T> {
+        const headers = {};
+        if (process.env.CHANGELOG_GITEA_TOKEN) headers['Authorization'] = `token ${process.env.CHANGELOG_GITEA_TOKEN}`;
+        return requestJson<T>(this.apiUrl + endpoint, headers);
+    }
+
+    // Like GitLab, Gitea doesn't say how a PR's author relates to the repo, so check
+    // whether they're a collaborator
+    private async getAuthorAssociation(login: string): Promise<string> {
+        if (!this.authorAssociations.has(login)) {
+            try {
+                await this.request(`/collaborators/${encodeURIComponent(login)}`);
+                this.authorAssociations.set(login, 'MEMBER');
+            } catch (e) {
+                if (!(e instanceof HttpError) || e.statusCode !== 404) throw e;
+                this.authorAssociations.set(login, 'CONTRIBUTOR');
+            }
+        }
+        return this.authorAssociations.get(login);
+    }
+
+    public async getPrInfo(mergeCommits: MergeCommit[]): Promise<PrInfo[]> {
+        const mergedPrInfo: PrInfo[] = [];
+
+        for (const commit of mergeCommits) {
+            log.debug(`Fetching PR ${commit.PrNumber}...`);
+            let pr: any;
+            try {
+                pr = await this.request(`/pulls/${commit.PrNumber}`);
+            } catch (e) {
+                // Any "(#123)" in a commit message looks like a PR to us, but it may be an issue,
+                // or a PR in another repo, so skip numbers that aren't PRs here as we do on GitHub
+                if (!(e instanceof HttpError) || e.statusCode !== 404) throw e;
+                log.warn(`Ignoring PR ${commit.PrNumber}: it doesn't exist`);
+                continue;
+            }
+            if (commit.sha !== null && pr.merge_commit_sha !== commit.sha) {
+                log.debug(
+                    `Ignoring PR ${pr.number} because merge commit ` +
+                    `(${pr.merge_commit_sha}) doesn't match git (${commit.sha})`,
+                );
+                continue;
+            }
+
+            // Gitea's PR objects are modelled on GitHub's, so are already mostly the right shape
+            pr.author_association = await this.getAuthorAssociation(pr.user.login);
+            pr.base.repo.owner.name = pr.base.repo.owner.login;
+            mergedPrInfo.push(pr as PrInfo);
+        }
+
+        return mergedPrInfo;
+    }
+
+    public async getPrsUpdatedSince(since: Date, limit: number): Promise<number[] | null> {
+        const updated: number[] = [];
+        for (let page = 1; ; ++page) {
+            const prs = await this.request(`/pulls?state=closed&sort=recentupdate&limit=50&page=${page}`);
+            for (const pr of prs) {
+                if (new Date(pr.updated_at) < since) return updated;
+                updated.push(pr.number);
+                if (updated.length > limit) return null;
+            }
+            if (prs.length < 50) return updated;
+        }
+    }
+
+    public async getReleases(): Promise<Releases> {
+        const rels = [];
+        for (let page = 1; ; ++page) {
+            const pageRels = await this.request(`/releases?limit=50&page=${page}`);
+            rels.push(...pageRels);
+            if (pageRels.length < 50) break;
+        }
+
+        return rels.map(rel => ({
+            // we use the release names as git refs, so use the tag name
+            name: rel.tag_name,
+            tag_name: rel.tag_name,
+            prerelease: rel.prerelease,
+            draft: rel.draft,
+        })) as unknown as Releases;
+    }
+
+    // Gitea doesn't have security advisories of its own, so there are none to look up
+    public async getAdvisoryCve(): Promise<string | null> {
+        return null;
+    }
+
+    public prUrl(prNumber: number): string {
+        return `${this.repoUrl()}/pulls/${prNumber}`;
+    }
+
+    public issueUrl(owner: string, repo: string, issueNumber: number): string {
+        return `${this.repository.baseUrl}/${owner}/${repo}/issues/${issueNumber}`;
+    }
+
+    public releaseUrl(tag: string): string {
+        return `${this.repoUrl()}/releases/tag/${tag}`;
+    }
+
+    public commitUrl(sha: string): string {
+        return `${this.repoUrl()}/commit/${sha}`;
+    }
+
+    private repoUrl(): string {
+        return `${this.repository.baseUrl}/${this.repository.owner}/${this.repository.repo}`;
+    }
+}
@@ -0,0 +1,145 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Octokit } from '@octokit/rest';
+import log from 'loglevel';
+
+import { getPrInfo, getPrInfoByRest, GITHUB_PR_NUMBER_REGEXPS, MergeCommit, PrInfo } from './changes';
+import { Forge, ForgeType, IRepository } from './forge';
+import { getReleases, Releases } from './releases';
+
+export class GitHubForge implements Forge {
+    public readonly type: ForgeType = 'github';
+    public readonly prNumberRegexps = GITHUB_PR_NUMBER_REGEXPS;
+    public readonly octo: Octokit;
+
+    constructor(public readonly repository: IRepository) {
+        this.octo = new Octokit({
+            auth: process.env.CHANGELOG_GITHUB_TOKEN,
+            // GitHub Enterprise has its API under the main host
+            baseUrl: repository.host === 'github.com' ? undefined : `${repository.baseUrl}/api/v3`,
+        });
+    }
+
+    public getPrInfo(mergeCommits: MergeCommit[]): Promise<PrInfo[]> {
+        if (!process.env.CHANGELOG_GITHUB_TOKEN) {
+            log.debug("No CHANGELOG_GITHUB_TOKEN, so fetching PRs one at a time from the REST API");
+            return getPrInfoByRest(this.octo, this.repository.owner, this.repository.repo, mergeCommits);
+        }
+        return getPrInfo(this.octo, this.repository.owner, this.repository.repo, mergeCommits);
+    }
+
+    public async getPrsUpdatedSince(since: Date, limit: number): Promise<number[] | null> {
+        const updated: number[] = [];
+        for (let page = 1; ; ++page) {
+            const prListResp = await this.octo.rest.pulls.list({
+                owner: this.repository.owner,
+                repo: this.repository.repo,
+                state: 'closed',
+                sort: 'updated',
+                direction: 'desc',
+                per_page: 100,
+                page,
+            });
+            for (const pr of prListResp.data) {
+                if (new Date(pr.updated_at) < since) return updated;
+                updated.push(pr.number);
+                if (updated.length > limit) return null;
+            }
+            if (prListResp.data.length < 100) return updated;
+        }
+    }
+
+    public getReleases(): Promise<Releases> {
+        return getReleases(this.octo, this.repository.owner, this.repository.repo);
+    }
+
+    public async getAdvisoryCve(ghsaId: string): Promise<string | null> {
+        try {
+            const resp = await this.octo.request('GET /repos/{owner}/{repo}/security-advisories/{ghsa_id}', {
+                owner: this.repository.owner,
+                repo: this.repository.repo,
+                ghsa_id: ghsaId,
+            });
+            return resp.data.cve_id ?? null;
+        } catch (e) {
+            // advisories that haven't been published can only be seen by the repo's admins
+            if (e.status === 404) {
+                log.debug(`Can't see advisory ${ghsaId}: not looking up its CVE`);
+                return null;
+            }
+            // the CVE is a nice-to-have, so don't let being offline or rate limited stop the whole run
+            log.warn(`Couldn't look up the CVE for advisory ${ghsaId}: ${e.message}`);
+            return null;
+        }
+    }
+
+    // Creates a draft release for the tag, or updates the release if there already is one. With dryRun,
+    // only works out which it would do, and where the release is (or would be).
+    public async createOrUpdateRelease(
+        tag: string, body: string, prerelease: boolean, targetCommitish?: string, dryRun = false,
+    ): Promise<{ created: boolean, url: string }> {
+        // nb. we can't use getReleaseByTag because it doesn't return draft releases
+        const existing = (await this.getReleases()).find(r => r.tag_name === tag);
+        if (dryRun) {
+            return { created: !existing, url: existing ? existing.html_url : this.releaseUrl(tag) };
+        }
+
+        if (existing) {
+            const resp = await this.octo.rest.repos.updateRelease({
+                owner: this.repository.owner,
+                repo: this.repository.repo,
+                release_id: existing.id,
+                body,
+                prerelease,
+            });
+            return { created: false, url: resp.data.html_url };
+        }
+
+        const resp = await this.octo.rest.repos.createRelease({
+            owner: this.repository.owner,
+            repo: this.repository.repo,
+            tag_name: tag,
+            name: tag,
+            body,
+            prerelease,
+            draft: true,
+            // only used if the tag doesn't exist yet
+            target_commitish: targetCommitish,
+        });
+        return { created: true, url: resp.data.html_url };
+    }
+
+    public prUrl(prNumber: number): string {
+        return `${this.repoUrl()}/pull/${prNumber}`;
+    }
+
+    public issueUrl(owner: string, repo: string, issueNumber: number): string {
+        return `${this.repository.baseUrl}/${owner}/${repo}/issues/${issueNumber}`;
+    }
+
+    public releaseUrl(tag: string): string {
+        return `${this.repoUrl()}/releases/tag/${tag}`;
+    }
+
+    public commitUrl(sha: string): string {
+        return `${this.repoUrl()}/commit/${sha}`;
+    }
+
+    private repoUrl(): string {
+        return `${this.repository.baseUrl}/${this.repository.owner}/${this.repository.repo}`;
+    }
+}
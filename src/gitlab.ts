@@ -0,0 +1,161 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import log from 'loglevel';
+import semver from 'semver';
+
+import { MergeCommit, PrInfo } from './changes';
+import { Forge, ForgeType, IRepository } from './forge';
+import { Releases } from './releases';
+import { HttpError, requestJson } from './request';
+
+// GitLab's merge commits end with "See merge request group/project!1234"
+const MERGE_REQUEST_REGEXP = /See merge request [\w./-]*!(\d+)/;
+
+export class GitLabForge implements Forge {
+    public readonly type: ForgeType = 'gitlab';
+    public readonly prNumberRegexps = [MERGE_REQUEST_REGEXP];
+    private readonly apiUrl: string;
+    private authorAssociations = new Map<number, string>();
+
+    constructor(public readonly repository: IRepository) {
+        const projectId = encodeURIComponent(`${repository.owner}/${repository.repo}`);
+        this.apiUrl = `${repository.baseUrl}/api/v4/projects/${projectId}`;
+    }
+
+    private request<T = any>(endpoint: string): Promise<T> {
+        const headers = {};
+        if (process.env.CHANGELOG_GITLAB_TOKEN) headers['PRIVATE-TOKEN'] = process.env.CHANGELOG_GITLAB_TOKEN;
+        return requestJson<T>(this.apiUrl + endpoint, headers);
+    }
+
+    // GitLab doesn't tell us how the author of an MR relates to the project, so work
+    // it out from the project's members, in the same terms as GitHub
+    private async getAuthorAssociation(userId: number): Promise<string> {
+        if (!this.authorAssociations.has(userId)) {
+            try {
+                await this.request(`/members/all/${userId}`);
+                this.authorAssociations.set(userId, 'MEMBER');
+            } catch (e) {
+                if (!(e instanceof HttpError) || e.statusCode !== 404) throw e;
+                this.authorAssociations.set(userId, 'CONTRIBUTOR');
+            }
+        }
+        return this.authorAssociations.get(userId);
+    }
+
+    public async getPrInfo(mergeCommits: MergeCommit[]): Promise<PrInfo[]> {
+        const mergedPrInfo: PrInfo[] = [];
+
+        // MRs can be fetched individually by number, so there's no need to page through them all
+        for (const commit of mergeCommits) {
+            log.debug(`Fetching MR !${commit.PrNumber}...`);
+            let mr: any;
+            try {
+                mr = await this.request(`/merge_requests/${commit.PrNumber}`);
+            } catch (e) {
+                // As on GitHub, a number that isn't one of the project's MRs is skipped rather than fatal
+                if (!(e instanceof HttpError) || e.statusCode !== 404) throw e;
+                log.warn(`Ignoring MR !${commit.PrNumber}: it doesn't exist`);
+                continue;
+            }
+            if (commit.sha !== null && ![mr.merge_commit_sha, mr.squash_commit_sha].includes(commit.sha)) {
+                log.debug(
+                    `Ignoring MR ${mr.iid} because merge commit ` +
+                    `(${mr.merge_commit_sha}) doesn't match git (${commit.sha})`,
+                );
+                continue;
+            }
+
+            mergedPrInfo.push({
+                number: mr.iid,
+                title: mr.title,
+                body: mr.description,
+                labels: mr.labels.map(name => ({ name })),
+                html_url: mr.web_url,
+                merge_commit_sha: commit.sha ?? mr.merge_commit_sha ?? mr.squash_commit_sha,
+                user: {
+                    login: mr.author.username,
+                },
+                author_association: await this.getAuthorAssociation(mr.author.id),
+                base: {
+                    repo: {
+                        name: this.repository.repo,
+                        owner: {
+                            login: this.repository.owner,
+                            name: this.repository.owner,
+                        },
+                    },
+                },
+            } as unknown as PrInfo);
+        }
+
+        return mergedPrInfo;
+    }
+
+    public async getPrsUpdatedSince(since: Date, limit: number): Promise<number[] | null> {
+        const updated: number[] = [];
+        for (let page = 1; ; ++page) {
+            const mrs = await this.request(
+                `/merge_requests?state=merged&updated_after=${since.toISOString()}&per_page=100&page=${page}`,
+            );
+            updated.push(...mrs.map(mr => mr.iid));
+            if (updated.length > limit) return null;
+            if (mrs.length < 100) return updated;
+        }
+    }
+
+    public async getReleases(): Promise<Releases> {
+        const rels = [];
+        for (let page = 1; ; ++page) {
+            const pageRels = await this.request(`/releases?per_page=100&page=${page}`);
+            rels.push(...pageRels);
+            if (pageRels.length < 100) break;
+        }
+
+        return rels.map(rel => ({
+            // we use the release names as git refs, so use the tag name
+            name: rel.tag_name,
+            tag_name: rel.tag_name,
+            prerelease: semver.prerelease(rel.tag_name) !== null,
+        })) as unknown as Releases;
+    }
+
+    // GitLab doesn't have security advisories of its own, so there are none to look up
+    public async getAdvisoryCve(): Promise<string | null> {
+        return null;
+    }
+
+    public prUrl(prNumber: number): string {
+        return `${this.repoUrl()}/-/merge_requests/${prNumber}`;
+    }
+
+    public issueUrl(owner: string, repo: string, issueNumber: number): string {
+        return `${this.repository.baseUrl}/${owner}/${repo}/-/issues/${issueNumber}`;
+    }
+
+    public releaseUrl(tag: string): string {
+        return `${this.repoUrl()}/-/releases/${tag}`;
+    }
+
+    public commitUrl(sha: string): string {
+        return `${this.repoUrl()}/-/commit/${sha}`;
+    }
+
+    private repoUrl(): string {
+        return `${this.repository.baseUrl}/${this.repository.owner}/${this.repository.repo}`;
+    }
+}
@@ -17,39 +17,66 @@ limitations under the License.
 */
 
 import log from 'loglevel';
+import fsProm from 'fs/promises';
+import path from 'path';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import clc from 'cli-color';
 import semver from 'semver';
 
 import {
-    ChangeType,
-    githubOrgRepoFromDir,
+    ChangeTypeConfig,
+    getChangeTypeConfig,
+    getChangeUrl,
     IChange,
+    parseIssueRef,
 } from "./changes";
 
-import { getLatestRelease, getReleaseBefore, getReleases, releasesContains } from "./releases";
-import { ChangesByProject, getPackageJsonAtVersion, Project, branchExists, BranchMode } from './projects';
+import {
+    getLatestRelease,
+    getPreviousRelease,
+    getReleaseBefore,
+    getReleasesFromTags,
+    releasesContains,
+    versionFromTag,
+    withTagReleases,
+} from "./releases";
+import {
+    branchModeForRef,
+    ChangesByProject,
+    findReleaseBranch,
+    getProjectName,
+    Project,
+    BranchMode,
+} from './projects';
 import { formatIssue } from './issue';
-import { previewChangelog, updateChangelog } from './changelog';
-import { Octokit } from '@octokit/rest';
-
-function formatChangeType(changeType: ChangeType) {
-    switch (changeType) {
-        case ChangeType.FEATURE:
-            return 'Feature';
-        case ChangeType.BUGFIX:
-            return 'Bug fix';
-        case ChangeType.TASK:
-        case null:
-            return "Internal change";
-    }
+import { PrCache } from './cache';
+import { makeCheckReport } from './check';
+import { describeInclusionReason, explainChange, findPrChanges, parsePrRef } from './explain';
+import { Workspace } from './workspace';
+import { writeMigrationGuide } from './migration';
+import { lintChangelog } from './lint';
+import { findFixesFor, getEntriesBetween, parseChangelog } from './query';
+import { publishRelease } from './publish';
+import { diffChangelog, previewChangelog, renderChangelogEntry, updateChangelog } from './changelog';
+import { ChangelogFormat, CHANGELOG_FORMATS, getProjectRenderer } from './formats';
+
+function formatChangeType(changeType: ChangeTypeConfig | undefined) {
+    if (!changeType?.changelog) return "Internal change";
+
+    return changeType.header;
 }
 
-function printChangeStatus(change: IChange, projectName: string, owner: string, repo: string) {
-    console.log(formatChangeType(change.changeType) + ": " + change.pr.html_url);
+function printChangeStatus(
+    change: IChange, projectName: string, owner: string, repo: string, changeTypes: ChangeTypeConfig[],
+) {
+    const changeType = getChangeTypeConfig(change.changeType, changeTypes);
+    console.log(formatChangeType(changeType) + ": " + (getChangeUrl(change) ?? change.commit.sha));
 
     console.log(`\t${change.notes === null ? '<no notes>' : change.notes}`);
+    if (change.scope) {
+        console.log(`\tScope: ${change.scope}`);
+    }
 
     for (const [proj, note] of Object.entries(change.notesByProject)) {
         let fmt = (x) => { return x; };
@@ -58,7 +85,9 @@ function printChangeStatus(change: IChange, projectName: string, owner: string,
     }
 
     if (change.headline) {
-        console.log('\t' + clc.bold.inverse(`HEADLINE: ${change.headline}`));
+        for (const line of change.headline.split("\n")) {
+            console.log('\t' + clc.bold.inverse(`HEADLINE: ${line}`));
+        }
     }
 
     for (const fixes of change.fixes) {
@@ -71,6 +100,10 @@ function printChangeStatus(change: IChange, projectName: string, owner: string,
     if (change.breaking) {
         console.log("\t\uD83D\uDCA5  Marked as breaking");
     }
+    if (change.migration) {
+        console.log("\tHas migration notes");
+    }
+    console.log(`\tBecause ${describeInclusionReason(change, changeTypes)}`);
 }
 
 async function main() {
@@ -90,15 +123,85 @@ async function main() {
             description: "Generate changelog as normal, but without version header and output to STDOUT.",
             conflicts: ["check"],
         },
+        "format": {
+            choices: CHANGELOG_FORMATS,
+            default: 'markdown' as ChangelogFormat,
+            description: "Output format for the changelog. Only markdown updates CHANGELOG.md: " +
+                "the others print the entry for the version to STDOUT. With --check, json gives the " +
+                "results as JSON.",
+        },
+        "dry-run": {
+            alias: 'diff',
+            type: "boolean",
+            description: "Don't update CHANGELOG.md, just print a diff of how it would change (or with " +
+                "release, just say what would be created or updated)",
+        },
+        "keep-existing": {
+            type: "boolean",
+            description: "If the version already has an entry in CHANGELOG.md, keep it as it is (eg. " +
+                "because it's been edited by hand) rather than writing it afresh",
+        },
+        "merge": {
+            type: "boolean",
+            default: true,
+            description: "Keep the text of changes already in the version's entry in CHANGELOG.md, or its " +
+                "prereleases' entries, so edits made by hand aren't lost (use --no-merge to write them afresh)",
+        },
+        "tag-fallback": {
+            type: "boolean",
+            description: "Treat version tags that don't have a release as releases",
+        },
+        "from": {
+            type: "string",
+            description: "Git ref to list changes since, instead of the release before the version",
+        },
+        "to": {
+            type: "string",
+            description: "Git ref to list changes up to, instead of working it out from the version",
+        },
+        "workspace": {
+            type: "string",
+            description: "Where to keep checkouts of subprojects that are cloned from their URL",
+        },
+        "cache": {
+            type: "boolean",
+            default: true,
+            description: "Cache PR metadata on disk between runs (use --no-cache to disable)",
+        },
     }).command("* [version]", "Generate changelog for the given version", yargs => (
         yargs.positional("version", {
             description: "The version to generate the changelog for, " +
                 "required if --check and/or --preview are not specified.",
             type: "string",
         })
+    )).command("release <version>", "Create or update the GitHub release for the given version", yargs => (
+        yargs.positional("version", {
+            description: "The version to create the release for",
+            type: "string",
+        })
+    )).command("explain <pr> [version]", "Explain why a PR is or isn't in the changelog", yargs => (
+        yargs.positional("pr", {
+            description: "The PR number, or its URL if the number alone could be from more than one project",
+            type: "string",
+        }).positional("version", {
+            description: "The version whose changelog to look in. By default, the next release.",
+            type: "string",
+        })
+    )).command(
+        "lint", "Check CHANGELOG.md for problems, exiting non-zero if there are any",
+    ).command("query", "Print the entries in CHANGELOG.md as JSON: all of them, or those for the " +
+        "versions after --from up to --to, or that fixed an issue", yargs => (
+        yargs.options({
+            "fixes": {
+                type: "string",
+                description: "Only the changes that fixed this issue, eg. 1234 or owner/repo#1234",
+            },
+        })
     )).help().parseSync();
 
-    if (!args.version && !args.check && !args.preview) {
+    if (
+        !args.version && !args.check && !args.preview && !['explain', 'lint', 'query'].includes(String(args._[0]))
+    ) {
         // Surely yargs should be able to do this? It seems incredibly confusing and I already regret using it
         console.log("No version specified");
         return;
@@ -108,83 +211,158 @@ async function main() {
         log.setLevel(log.levels.DEBUG);
     }
 
-    const octo = new Octokit({
-        auth: process.env.CHANGELOG_GITHUB_TOKEN,
-    });
-
     const dir = process.cwd();
-    const projectName = (await getPackageJsonAtVersion(dir, '')).name;
+    const projectName = await getProjectName(dir);
     log.debug("Project: " + projectName);
     const project = await Project.make(projectName, dir);
-    const [owner, repo] = await githubOrgRepoFromDir(dir);
+    const { changeTypes, changeSource, versioning } = await project.getReleaseCfg(dir);
+    const { owner, repo } = project;
+
+    if (args._[0] === 'lint') {
+        const diagnostics = lintChangelog(await fsProm.readFile(path.join(dir, 'CHANGELOG.md'), 'utf8'), changeTypes);
+        for (const diagnostic of diagnostics) {
+            console.log(`CHANGELOG.md:${diagnostic.line}: ${diagnostic.message}`);
+        }
+        if (diagnostics.length > 0) process.exitCode = 1;
+        return;
+    }
+
+    if (args._[0] === 'query') {
+        // the range is of versions in the changelog, which needn't have been released from this repo
+        const toVersion = (v: string) => v ? semver.valid(versionFromTag(v, versioning.tagPrefix) ?? v) : null;
+        const text = await fsProm.readFile(path.join(dir, 'CHANGELOG.md'), 'utf8');
+        let entries = getEntriesBetween(
+            parseChangelog(text, owner, repo, changeTypes), toVersion(args.from), toVersion(args.to),
+        );
+        if (args.fixes) {
+            // a bare number is one of the project's own issues
+            const issue = parseIssueRef(args.fixes.replace(/^(\d+)$/, '#$1'), owner, repo);
+            if (!issue) throw new Error(`${args.fixes} isn't an issue`);
+            entries = findFixesFor(entries, issue);
+        }
+        console.log(JSON.stringify(entries, null, 4));
+        return;
+    }
+
+    if (args.cache) project.prCache = await PrCache.load();
+    if (args.workspace) project.workspace = new Workspace(args.workspace);
     let branchMode = BranchMode.Exact;
 
-    const rels = await getReleases(octo, owner, repo);
+    // Projects taking their changes straight from git don't need their forge for anything,
+    // so use their tags rather than the forge's releases
+    const { tagPrefix } = versioning;
+    let rels = changeSource === 'commits' ?
+        await getReleasesFromTags(dir, tagPrefix) :
+        await project.forge.getReleases();
+    if (args.tagFallback && changeSource !== 'commits') {
+        rels = withTagReleases(rels, await getReleasesFromTags(dir, tagPrefix), tagPrefix);
+    }
+
+    // The version can be given with or without the tag prefix
+    let version: string = null;
+    if (args.version) {
+        version = semver.valid(versionFromTag(args.version, tagPrefix) ?? args.version);
+        if (version === null) throw new Error(`${args.version} is not a valid version`);
+    }
+
     let fromVer: string;
     let toVer: string;
 
-    if (args.version) {
-        const targetReleaseSemVer = semver.parse(args.version);
+    if (args.from && args.to) {
+        // the range was given explicitly, so there's nothing to work out
+    } else if (version) {
+        const targetReleaseSemVer = semver.parse(version);
+        const targetTag = tagPrefix + version;
         const targetIsPrerelease = targetReleaseSemVer.prerelease.length > 0;
-        const toVerReleaseBranch =
-            `release-v${targetReleaseSemVer.major}.${targetReleaseSemVer.minor}.${targetReleaseSemVer.patch}`;
-        if (releasesContains(rels, args.version)) {
-            log.debug("Found existing release for " + args.version);
-            // nb. getReleases only gets the most recent 100 so this won't work
-            // for older releases
-            fromVer = getReleaseBefore(rels, args.version, targetIsPrerelease).name;
-            toVer = args.version;
-        } else if (args.version !== 'develop' && await branchExists(dir, toVerReleaseBranch)) {
-            log.debug("Found release branch for " + args.version);
+        const toVerReleaseBranch = await findReleaseBranch(dir, versioning, targetReleaseSemVer);
+        if (releasesContains(rels, targetTag)) {
+            log.debug("Found existing release for " + targetTag);
+            fromVer = getReleaseBefore(rels, targetTag, targetIsPrerelease, tagPrefix).name;
+            toVer = targetTag;
+        } else if (toVerReleaseBranch) {
+            log.debug(`Found release branch ${toVerReleaseBranch} for ${version}`);
             // 'to' release has had a release branch cut but not yet a full release
-            // compare to the tip of the release branch
-            fromVer = getLatestRelease(rels, targetIsPrerelease).name;
+            // compare to the tip of the release branch. If it's a maintenance branch, the
+            // previous release is the last one from that branch, not necessarily the latest.
+            fromVer = getPreviousRelease(rels, targetTag, targetIsPrerelease, tagPrefix).name;
             toVer = toVerReleaseBranch;
             branchMode = BranchMode.Release;
-        } else if (args.version !== 'develop' && await branchExists(dir, "staging")) {
-            log.debug("Found release branch for " + args.version);
-            // 'to' release has had a release branch cut but not yet a full release
-            // compare to the tip of the release branch
-            fromVer = getLatestRelease(rels, targetIsPrerelease).name;
-            toVer = "staging";
-            branchMode = BranchMode.Release;
         } else {
-            log.debug("Found neither release nor branch for " + args.version);
+            log.debug("Found neither release nor branch for " + version);
             // the 'to' release is an doesn't-yet-exist future release -
-            // compare to the tip of develop (a better piece of software
-            // might make this configurable...)
-            fromVer = getLatestRelease(rels, targetIsPrerelease).name;
-            toVer = 'develop';
+            // compare to the tip of the default branch
+            fromVer = getPreviousRelease(rels, targetTag, targetIsPrerelease, tagPrefix).name;
+            toVer = versioning.defaultBranch;
             branchMode = BranchMode.Develop;
         }
     } else {
-        fromVer = getLatestRelease(rels, false).name;
-        toVer = 'develop';
+        fromVer = getLatestRelease(rels, false, tagPrefix).name;
+        toVer = versioning.defaultBranch;
         branchMode = BranchMode.Develop;
     }
 
+    if (args.from) fromVer = args.from;
+    if (args.to) {
+        toVer = args.to;
+        branchMode = branchModeForRef(toVer, versioning);
+    }
+
     const changes = {} as ChangesByProject;
-    await project.collectChanges(octo, changes, fromVer, toVer, branchMode);
+    await project.collectChanges(changes, fromVer, toVer, branchMode);
+    await project.prCache?.save();
     const allChanges = [].concat(...Object.values(changes)) as IChange[];
     //log.debug(changes);
 
+    if (args._[0] === 'explain') {
+        const prRef = parsePrRef(String(args.pr));
+        const found = findPrChanges(changes, prRef);
+        if (found.length === 0) {
+            console.log(
+                `PR ${args.pr} isn't in ${projectName} or any of its subprojects between ${fromVer} and ${toVer}. ` +
+                `It may not be merged yet, or it may be in a different release.`,
+            );
+            process.exitCode = 1;
+        }
+        for (const [changeProject, change] of found) {
+            console.log(explainChange(changeProject, change, changeTypes).join("\n"));
+        }
+        return;
+    }
+
+    if (args._[0] === 'release') {
+        // if we're comparing against a branch, that's where the tag should go
+        await publishRelease(
+            project, allChanges, version, branchMode === BranchMode.Exact ? undefined : toVer, args.dryRun,
+        );
+        return;
+    }
+
     if (args.check) {
+        // we can't suggest a version if we're comparing against something other than a release
+        const report = makeCheckReport(
+            projectName, changes, fromVer, toVer, changeTypes, versionFromTag(fromVer, tagPrefix),
+        );
+        if (args.format === 'json') {
+            console.log(JSON.stringify(report, null, 4));
+            return;
+        }
+
         console.log(`Will include from home project (${projectName}): `);
         for (const change of changes[projectName].filter(c => c.shouldInclude)) {
-            printChangeStatus(change, projectName, owner, repo);
+            printChangeStatus(change, projectName, owner, repo, changeTypes);
         }
         for (const [subProj, subChanges] of Object.entries(changes)) {
             if (subProj === projectName) continue;
 
             console.log("\nWill include from " + subProj + ":");
             for (const change of subChanges.filter(c => c.shouldInclude)) {
-                printChangeStatus(change, projectName, owner, repo);
+                printChangeStatus(change, projectName, owner, repo, changeTypes);
             }
         }
 
         console.log(`\nWill omit from home project (${projectName}): `);
         for (const change of changes[projectName].filter(c => !c.shouldInclude)) {
-            printChangeStatus(change, projectName, owner, repo);
+            printChangeStatus(change, projectName, owner, repo, changeTypes);
         }
 
         for (const [subProj, subChanges] of Object.entries(changes)) {
@@ -192,35 +370,43 @@ async function main() {
 
             console.log("\nWill omit from " + subProj + ":");
             for (const change of subChanges.filter(c => !c.shouldInclude)) {
-                printChangeStatus(change, projectName, owner, repo);
+                printChangeStatus(change, projectName, owner, repo, changeTypes);
             }
         }
 
-        const numBreaking = allChanges.filter(c => c.breaking).length;
-        const numFeatures = allChanges.filter(c => c.changeType == ChangeType.FEATURE).length;
-        let suggestedBumpType: "major" | "minor" | "patch";
-        if (numBreaking) {
-            suggestedBumpType = 'major';
-        } else if (numFeatures) {
-            suggestedBumpType = 'minor';
-        } else {
-            suggestedBumpType = 'patch';
-        }
-        const suggestedVersion = semver.inc(fromVer, suggestedBumpType);
         console.log('');
-        console.log(`${clc.bold(numBreaking)} breaking changes and ${clc.bold(numFeatures)} features.`);
-        console.log(`According to semver, this would be a ${clc.bold(suggestedBumpType)} release.`);
-        console.log(`Suggested version number: ${clc.bold(suggestedVersion)}`);
+        console.log(
+            `${clc.bold(report.breakingChanges)} breaking changes and ${clc.bold(report.features)} features.`,
+        );
+        console.log(`According to semver, this would be a ${clc.bold(report.bump)} release.`);
+        if (report.nextVersion) {
+            console.log(`Suggested version number: ${clc.bold(report.nextVersion)}`);
+        }
         return;
     }
 
+    const render = await getProjectRenderer(project, args.format);
     if (args.preview) {
-        await previewChangelog(project, allChanges);
+        await previewChangelog(project, allChanges, render);
+        return;
+    }
+
+    if (args.format !== 'markdown') {
+        console.log(await renderChangelogEntry(project, allChanges, version, render));
         return;
     }
 
-    log.debug("Updating changelog entry for " + args.version);
-    await updateChangelog(project, allChanges, args.version);
+    const updateOptions = { keepExisting: args.keepExisting, merge: args.merge };
+    if (args.dryRun) {
+        process.stdout.write(await diffChangelog(project, allChanges, version, render, updateOptions));
+        return;
+    }
+
+    log.debug("Updating changelog entry for " + version);
+    await updateChangelog(project, allChanges, version, render, updateOptions);
+
+    const migrationGuide = await writeMigrationGuide(project, changes, version);
+    if (migrationGuide) console.log(`Wrote migration guide for ${version} to ${migrationGuide}`);
 }
 
 main();
@@ -0,0 +1,21 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+// What other tools can use without running the CLI, as the package's main entry point
+
+export { bumpVersion, IBump } from './bump';
+export { ChangeTypeConfig, DEFAULT_CHANGE_TYPES, IChange } from './changes';
+export { findFixesFor, getEntriesBetween, IParsedChange, IParsedEntry, IParsedSection, parseChangelog } from './query';
@@ -0,0 +1,84 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { DEFAULT_CHANGE_TYPES } from './changes';
+import { lintChangelog } from './lint';
+
+test('A changelog as we write it is fine', () => {
+    const changelog = [
+        '# Changelog',
+        '',
+        'Changes in [1.2.0](https://github.com/bert/llamalist/releases/tag/v1.2.0) (2021-07-01)',
+        '======================================================================================',
+        '',
+        '## ⭐ Highlights',
+        ' * Llamas can fly',
+        '',
+        '## ✨ Features',
+        ' * Add a llama ([\\#1](https://github.com/bert/llamalist/pull/1)). Fixes #10.',
+        '',
+        '   ```',
+        '   ## Not a section',
+        '   ```',
+        '',
+        '## 🙏 Acknowledgements',
+        ' * @alice',
+        '',
+        '## [1.1.0] - 2021-06-01',
+        '',
+        '### Fixed',
+        '- Fix the llama ([bert/llama-core#2](https://github.com/bert/llama-core/pull/2)).',
+        '',
+    ].join("\n");
+    expect(lintChangelog(changelog, DEFAULT_CHANGE_TYPES)).toEqual([]);
+});
+
+test('Problems are reported with their lines', () => {
+    const changelog = [
+        'Changes in [1.2.0-rc.1](https://github.com/bert/llamalist/releases/tag/v1.2.0-rc.1) (2021-06-31)',
+        '===============================================================================================',
+        '',
+        '## Llama things',
+        ' * Add a llama ([\\#1](https://github.com/bert/llamalist/pull/2)).',
+        ' * Fix the llama ([\\#3](https://example.com)).',
+        '',
+        'Changes in [1.2.0](https://github.com/bert/llamalist/releases/tag/v1.2.0)',
+        '',
+        'Changes in [1.1.0](https://github.com/bert/llamalist/releases/tag/v1.1.0) (2021-06-01)',
+        '',
+        '## [1.1.0] - 2021-06-01',
+        '',
+        '## [1.llama] - 01/05/2021',
+        '',
+    ].join("\n");
+
+    expect(lintChangelog(changelog, DEFAULT_CHANGE_TYPES)).toEqual([
+        { line: 1, message: '2021-06-31 is not a valid date: dates should be YYYY-MM-DD' },
+        {
+            line: 1,
+            message: '1.2.0-rc.1 is a prerelease of 1.2.0, which has been released, ' +
+                'so its entry should have been replaced',
+        },
+        { line: 4, message: "Unexpected section 'Llama things' in 1.2.0-rc.1" },
+        { line: 5, message: 'The link for #1 goes to https://github.com/bert/llamalist/pull/2' },
+        { line: 6, message: "The link for #3 goes to 'https://example.com', which isn't a PR or issue" },
+        { line: 8, message: '1.2.0 comes after 1.2.0-rc.1 on line 1, but entries should be newest first' },
+        { line: 8, message: 'The heading for 1.2.0 has no date' },
+        { line: 12, message: 'Duplicate entry for 1.1.0, which first appears on line 10' },
+        { line: 14, message: '1.llama is not a valid version' },
+        { line: 14, message: '01/05/2021 is not a valid date: dates should be YYYY-MM-DD' },
+    ]);
+});
@@ -0,0 +1,129 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import semver from 'semver';
+
+import { isPrereleaseFor, parseHeadingDate, parseVersionHeading, withoutEmoji } from './changelog';
+import { ChangeTypeConfig } from './changes';
+import { sectionIdsByTitle } from './formats';
+
+// A problem with the changelog, and the line it's on, counting from 1
+export interface ILintDiagnostic {
+    line: number;
+    message: string;
+}
+
+const DATE_REGEXP = /^\d{4}-\d{2}-\d{2}$/;
+// A link whose text is a PR or issue, eg. [\#123](...) or [owner/repo#123](...)
+const ISSUE_LINK_REGEXP = /\[((?:[\w.-]+\/[\w.-]+)?\\?#(\d+))]\(([^)\s]*)\)/g;
+// The paths forges give PRs and issues, eg. /pull/123 on GitHub or /-/merge_requests/123 on GitLab
+const ISSUE_URL_REGEXP = /^https?:\/\/[^/]+\/.*\/(?:pull|pulls|issues|merge_requests)\/(\d+)\/?(?:#.*)?$/;
+
+function isValidDate(date: string): boolean {
+    if (!DATE_REGEXP.test(date)) return false;
+    // Date rolls over invalid days, eg. the 31st of April into the 1st of May, rather than failing
+    const parsed = new Date(date + 'T00:00:00Z');
+    return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+// Checks a changelog, as we'd write it, for the problems that creep in when it's edited by hand:
+// versions that are duplicated, out of order or not versions at all, missing or invalid dates,
+// sections we don't know about, links to PRs and issues that go somewhere else, and entries for
+// prereleases of versions that have since been released.
+export function lintChangelog(text: string, changeTypes: ChangeTypeConfig[]): ILintDiagnostic[] {
+    const diagnostics: ILintDiagnostic[] = [];
+    const sectionIds = sectionIdsByTitle(changeTypes);
+    // where each version's entry is, in the order they appear
+    const versions: { version: semver.SemVer, line: number }[] = [];
+
+    let currentVersion: string = null;
+    let fence: string = null;
+    text.split("\n").forEach((line, i) => {
+        const lineNumber = i + 1;
+        const report = (message: string) => diagnostics.push({ line: lineNumber, message });
+
+        const fenceMatches = line.trim().match(/^(`{3,}|~{3,})/);
+        if (fence === null && fenceMatches) {
+            fence = fenceMatches[1];
+            return;
+        } else if (fence !== null) {
+            if (fenceMatches && line.trim() === fence[0].repeat(line.trim().length)) fence = null;
+            return;
+        }
+
+        const heading = parseVersionHeading(line);
+        if (heading) {
+            currentVersion = heading.version;
+            const version = semver.parse(heading.version);
+            if (version === null) {
+                report(`${heading.version} is not a valid version`);
+            } else {
+                const previous = versions.find(v => v.version.compare(version) === 0);
+                const newer = versions.length > 0 ? versions[versions.length - 1] : null;
+                if (previous) {
+                    report(`Duplicate entry for ${heading.version}, which first appears on line ${previous.line}`);
+                } else if (newer && newer.version.compare(version) < 0) {
+                    report(
+                        `${heading.version} comes after ${newer.version.format()} on line ${newer.line}, ` +
+                        `but entries should be newest first`,
+                    );
+                }
+                versions.push({ version, line: lineNumber });
+            }
+
+            const date = parseHeadingDate(heading.rest);
+            if (date === null) {
+                report(`The heading for ${heading.version} has no date`);
+            } else if (!isValidDate(date)) {
+                report(`${date} is not a valid date: dates should be YYYY-MM-DD`);
+            }
+            return;
+        }
+
+        // anything before the first entry, such as the changelog's title, is up to the project
+        if (currentVersion === null) return;
+
+        const sectionMatches = /^#+\s+(.*?)\s*$/.exec(line);
+        if (sectionMatches && !sectionIds.has(withoutEmoji(sectionMatches[1]))) {
+            report(`Unexpected section '${sectionMatches[1]}' in ${currentVersion}`);
+        }
+
+        ISSUE_LINK_REGEXP.lastIndex = 0;
+        let linkMatches: RegExpExecArray;
+        while ((linkMatches = ISSUE_LINK_REGEXP.exec(line)) !== null) {
+            const [, linkText, number, url] = linkMatches;
+            const urlMatches = ISSUE_URL_REGEXP.exec(url);
+            if (!urlMatches) {
+                report(`The link for ${linkText.replace('\\', '')} goes to '${url}', which isn't a PR or issue`);
+            } else if (urlMatches[1] !== number) {
+                report(`The link for ${linkText.replace('\\', '')} goes to ${url}`);
+            }
+        }
+    });
+
+    for (const { version, line } of versions) {
+        const release = versions.find(v => isPrereleaseFor(version, v.version));
+        if (release) {
+            diagnostics.push({
+                line,
+                message: `${version.format()} is a prerelease of ${release.version.format()}, ` +
+                    `which has been released, so its entry should have been replaced`,
+            });
+        }
+    }
+
+    return diagnostics.sort((a, b) => a.line - b.line);
+}
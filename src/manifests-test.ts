@@ -0,0 +1,140 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { execFileSync } from 'child_process';
+import fsProm from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import {
+    getManifestName,
+    getPinnedVersion,
+    parseCargoDependency,
+    parseCargoPackageName,
+    parseGoModName,
+    parseGoModRequire,
+    parsePackageJsonDependency,
+} from './manifests';
+
+const CARGO_TOML = `
+[package]
+name = "llamalist"
+version = "0.1.0"
+
+[dependencies]
+serde = { version = "1.0.130", features = ["derive"] }
+llama-core = "=2.3.4" # pinned exactly
+
+[dev-dependencies.llama-test]
+path = "../llama-test"
+version = "0.4.0"
+
+[target.'cfg(unix)'.dependencies]
+nix = "0.23.0"
+`;
+
+const GO_MOD = `
+module example.com/llamalist
+
+go 1.17
+
+require example.com/single v1.0.0
+
+require (
+    example.com/llama v1.2.3 // indirect
+    example.com/untagged v0.0.0-20210701120000-abcdef123456
+)
+`;
+
+test('package.json dependencies', () => {
+    const packageJson = JSON.stringify({
+        dependencies: { 'llama-core': '2.3.4' },
+        devDependencies: { 'llama-test': '0.4.0' },
+    });
+    expect(parsePackageJsonDependency(packageJson, 'llama-core')).toEqual('2.3.4');
+    expect(parsePackageJsonDependency(packageJson, 'llama-test')).toEqual('0.4.0');
+    expect(parsePackageJsonDependency(packageJson, 'alpaca')).toEqual(null);
+});
+
+test('Cargo.toml dependencies', () => {
+    expect(parseCargoDependency(CARGO_TOML, 'serde')).toEqual('1.0.130');
+    expect(parseCargoDependency(CARGO_TOML, 'llama-core')).toEqual('=2.3.4');
+    expect(parseCargoDependency(CARGO_TOML, 'llama-test')).toEqual('0.4.0');
+    expect(parseCargoDependency(CARGO_TOML, 'nix')).toEqual('0.23.0');
+    expect(parseCargoDependency(CARGO_TOML, 'llamalist')).toEqual(null);
+});
+
+test('go.mod requirements', () => {
+    expect(parseGoModRequire(GO_MOD, 'example.com/single')).toEqual('v1.0.0');
+    expect(parseGoModRequire(GO_MOD, 'example.com/llama')).toEqual('v1.2.3');
+    expect(parseGoModRequire(GO_MOD, 'example.com/alpaca')).toEqual(null);
+});
+
+test('Project names from Cargo.toml and go.mod', () => {
+    expect(parseCargoPackageName(CARGO_TOML)).toEqual('llamalist');
+    expect(parseCargoPackageName('[dependencies]\nname = "llama"\n')).toEqual(null);
+    expect(parseGoModName(GO_MOD)).toEqual('llamalist');
+    expect(parseGoModName('module github.com/bert/llama/v2\n')).toEqual('llama');
+});
+
+describe('getPinnedVersion', () => {
+    let repoDir: string;
+    const sha = '0123456789abcdef0123456789abcdef01234567';
+
+    beforeAll(async () => {
+        repoDir = await fsProm.mkdtemp(path.join(os.tmpdir(), 'allchange-test-'));
+        const git = (...args: string[]) => execFileSync('git', args, {
+            cwd: repoDir,
+            env: {
+                ...process.env,
+                GIT_AUTHOR_NAME: 'Bert', GIT_AUTHOR_EMAIL: 'bert@example.com',
+                GIT_COMMITTER_NAME: 'Bert', GIT_COMMITTER_EMAIL: 'bert@example.com',
+            },
+        });
+
+        git('init', '--quiet');
+        await fsProm.writeFile(path.join(repoDir, 'go.mod'), GO_MOD);
+        await fsProm.writeFile(path.join(repoDir, 'LLAMA_VERSION'), '1.4.0\n');
+        git('add', 'go.mod', 'LLAMA_VERSION');
+        // a submodule, without needing a repo for it to point to
+        git('update-index', '--add', '--cacheinfo', `160000,${sha},vendor/llama`);
+        git('commit', '--quiet', '-m', 'Initial commit');
+    });
+
+    afterAll(async () => {
+        await fsProm.rm(repoDir, { recursive: true });
+    });
+
+    it('reads versions and commits', async () => {
+        expect(await getPinnedVersion(repoDir, 'HEAD', 'go.mod', 'example.com/llama'))
+            .toEqual({ version: 'v1.2.3', commit: null });
+        expect(await getPinnedVersion(repoDir, 'HEAD', 'go.mod', 'example.com/untagged'))
+            .toEqual({ version: null, commit: 'abcdef123456' });
+        expect(await getPinnedVersion(repoDir, 'HEAD', 'submodule', 'vendor/llama'))
+            .toEqual({ version: null, commit: sha });
+        expect(await getPinnedVersion(repoDir, 'HEAD', 'file', 'LLAMA_VERSION'))
+            .toEqual({ version: '1.4.0', commit: null });
+    });
+
+    it('reads the project name from whichever manifest there is', async () => {
+        expect(await getManifestName(repoDir)).toEqual('llamalist');
+    });
+
+    it('fails if the dependency is missing', async () => {
+        await expect(getPinnedVersion(repoDir, 'HEAD', 'go.mod', 'example.com/alpaca')).rejects.toThrow();
+        await expect(getPinnedVersion(repoDir, 'HEAD', 'submodule', 'vendor/alpaca')).rejects.toThrow();
+    });
+});
@@ -0,0 +1,194 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { execFile } from 'child_process';
+
+// Where a project says which version of a subproject it uses
+export type ManifestType = 'package.json' | 'Cargo.toml' | 'go.mod' | 'submodule' | 'file';
+
+export const MANIFEST_TYPES: ManifestType[] = ['package.json', 'Cargo.toml', 'go.mod', 'submodule', 'file'];
+
+// The version of a subproject that a project depends on, as given by its manifest
+export interface IPinnedVersion {
+    // The version, if the manifest gives one
+    version: string | null;
+    // The exact commit, for manifests that pin one rather than a version
+    commit: string | null;
+}
+
+// Go's pseudo-versions for commits that aren't tagged, eg. v0.0.0-20210701120000-abcdef123456
+const GO_PSEUDO_VERSION_REGEXP = /^v\d+\.\d+\.\d+-(?:.*\.)?\d{14}-([0-9a-f]{12})(?:\+incompatible)?$/;
+const CARGO_DEPS_SECTION_REGEXP = /(?:^|\.)(?:dependencies|dev-dependencies|build-dependencies)$/;
+
+function git(dir: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, {
+            cwd: dir,
+        }, (error, stdout) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+export function parsePackageJsonDependency(text: string, name: string): string | null {
+    const packageJson = JSON.parse(text);
+    for (const deps of [packageJson.dependencies, packageJson.devDependencies, packageJson.peerDependencies]) {
+        if (deps?.[name] !== undefined) return deps[name];
+    }
+    return null;
+}
+
+// Just enough TOML to find a crate's version in any of the dependency tables, whether it's
+// given as a string, an inline table or a table of its own
+export function parseCargoDependency(text: string, crate: string): string | null {
+    let section: string = null;
+    for (const rawLine of text.split("\n")) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+
+        const header = line.match(/^\[([^\]]+)]$/);
+        if (header) {
+            section = header[1].replace(/\s/g, '');
+            continue;
+        }
+        if (section === null) continue;
+
+        let matches: RegExpMatchArray;
+        if (CARGO_DEPS_SECTION_REGEXP.test(section)) {
+            if (!(matches = line.match(/^["']?([\w-]+)["']?\s*=\s*(.*)$/)) || matches[1] !== crate) continue;
+            const value = matches[2];
+            if (matches = value.match(/^["']([^"']*)["']$/)) return matches[1];
+            if (matches = value.match(/\bversion\s*=\s*["']([^"']*)["']/)) return matches[1];
+        } else if (section.endsWith(`dependencies.${crate}`)) {
+            if (matches = line.match(/^version\s*=\s*["']([^"']*)["']$/)) return matches[1];
+        }
+    }
+    return null;
+}
+
+export function parseGoModRequire(text: string, module: string): string | null {
+    let inRequireBlock = false;
+    for (const rawLine of text.split("\n")) {
+        const line = rawLine.replace(/\/\/.*$/, '').trim();
+
+        if (/^require\s*\($/.test(line)) {
+            inRequireBlock = true;
+            continue;
+        } else if (inRequireBlock && line === ')') {
+            inRequireBlock = false;
+            continue;
+        }
+
+        const matches = inRequireBlock ? line.match(/^(\S+)\s+(\S+)$/) : line.match(/^require\s+(\S+)\s+(\S+)$/);
+        if (matches && matches[1] === module) return matches[2];
+    }
+    return null;
+}
+
+// The name of the crate in a Cargo.toml, from its [package] table
+export function parseCargoPackageName(text: string): string | null {
+    let section: string = null;
+    for (const rawLine of text.split("\n")) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+
+        const header = line.match(/^\[([^\]]+)]$/);
+        if (header) {
+            section = header[1].replace(/\s/g, '');
+            continue;
+        }
+
+        const matches = section === 'package' && line.match(/^name\s*=\s*["']([^"']*)["']$/);
+        if (matches) return matches[1];
+    }
+    return null;
+}
+
+// The name of a Go module, which is the last part of its path, leaving out any major version suffix,
+// eg. 'llama' for github.com/bert/llama/v2
+export function parseGoModName(text: string): string | null {
+    for (const rawLine of text.split("\n")) {
+        const matches = rawLine.replace(/\/\/.*$/, '').trim().match(/^module\s+"?([^\s"]+)"?$/);
+        if (matches) return matches[1].replace(/\/v\d+$/, '').split('/').pop();
+    }
+    return null;
+}
+
+// The name the project at the given directory gives itself in whichever of the manifests that
+// name the project it has, or null if it has none of them
+export async function getManifestName(dir: string): Promise<string | null> {
+    const parsers: [string, (text: string) => string | null][] = [
+        ['package.json', text => JSON.parse(text).name ?? null],
+        ['Cargo.toml', parseCargoPackageName],
+        ['go.mod', parseGoModName],
+    ];
+    for (const [file, parse] of parsers) {
+        let text: string;
+        try {
+            // as for package.json before, read what's staged, so a version bump needn't be committed yet
+            text = await git(dir, ['show', `:${file}`]);
+        } catch {
+            continue;
+        }
+        const name = parse(text);
+        if (name) return name;
+    }
+    return null;
+}
+
+async function readManifest(dir: string, ref: string, manifest: ManifestType, key: string): Promise<IPinnedVersion> {
+    switch (manifest) {
+        case 'package.json':
+            return {
+                version: parsePackageJsonDependency(await git(dir, ['show', `${ref}:package.json`]), key),
+                commit: null,
+            };
+        case 'Cargo.toml':
+            return {
+                version: parseCargoDependency(await git(dir, ['show', `${ref}:Cargo.toml`]), key),
+                commit: null,
+            };
+        case 'go.mod': {
+            const version = parseGoModRequire(await git(dir, ['show', `${ref}:go.mod`]), key);
+            const pseudoVersion = version?.match(GO_PSEUDO_VERSION_REGEXP);
+            if (pseudoVersion) return { version: null, commit: pseudoVersion[1] };
+            return { version, commit: null };
+        }
+        case 'submodule': {
+            // eg. "160000 commit 0123abcd...\tpath/to/submodule"
+            const matches = (await git(dir, ['ls-tree', ref, '--', key])).match(/^\d+ commit ([0-9a-f]+)\t/);
+            return { version: null, commit: matches ? matches[1] : null };
+        }
+        case 'file':
+            return { version: (await git(dir, ['show', `${ref}:${key}`])).trim() || null, commit: null };
+        default:
+            throw new Error(`Unknown manifest type '${manifest}'`);
+    }
+}
+
+// Reads the version of a subproject that the project at the given directory uses at the given git ref.
+// The key is the name of the dependency, or the path to the submodule or version file.
+export async function getPinnedVersion(
+    dir: string, ref: string, manifest: ManifestType, key: string,
+): Promise<IPinnedVersion> {
+    const pinned = await readManifest(dir, ref, manifest, key);
+    if (pinned.version === null && pinned.commit === null) {
+        throw new Error(`Couldn't find ${key} in ${manifest} at ${ref}`);
+    }
+    return pinned;
+}
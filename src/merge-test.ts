@@ -0,0 +1,132 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { updateChangelogText } from './changelog';
+import { findChangeLink, mergeChangelogEntry } from './merge';
+
+const pr = (n: number) => `([\\#${n}](https://github.com/bert/llamalist/pull/${n}))`;
+
+const RC_ENTRY = [
+    'Changes in [1.2.0-rc.1](https://github.com/bert/llamalist/releases/tag/v1.2.0-rc.1) (2021-07-01)',
+    '================================================================================================',
+    '',
+    '## ✨ Features',
+    ` * Add a llama, which you can now name (hand edited) ${pr(1)}.`,
+    '',
+    '   It has a name.',
+    ` * Add an alpaca ${pr(2)}.`,
+    '',
+    '## 🐛 Bug Fixes',
+    ` * Fix the llama ${pr(3)}. Fixes #10.`,
+    '',
+    '',
+].join("\n");
+
+const NEW_ENTRY = [
+    'Changes in [1.2.0](https://github.com/bert/llamalist/releases/tag/v1.2.0) (2021-07-08)',
+    '======================================================================================',
+    '',
+    '## ✨ Features',
+    ` * Add a lama ${pr(1)}.`,
+    ` * Add a vicuña ${pr(4)}.`,
+    '',
+    '## 🐛 Bug Fixes',
+    ` * Fix teh llama ${pr(3)}. Fixes #10.`,
+    '',
+    '',
+].join("\n");
+
+test('Changes found by their links', () => {
+    expect(findChangeLink(`Add [a llama](https://example.com) ${pr(1)}. Fixes #10.`)).toEqual({
+        url: 'https://github.com/bert/llamalist/pull/1',
+        pr: 1,
+        commit: null,
+        index: 35,
+        length: 50,
+    });
+    expect(findChangeLink('Add a llama ([abcdef1](https://github.com/bert/llamalist/commit/abcdef1)).')?.commit)
+        .toEqual('abcdef1');
+    expect(findChangeLink('Add a llama')).toEqual(null);
+});
+
+test('Merging keeps edited changes, adds new ones and reports removed ones', () => {
+    const merged = mergeChangelogEntry(NEW_ENTRY, [RC_ENTRY]);
+    expect(merged.text).toEqual([
+        'Changes in [1.2.0](https://github.com/bert/llamalist/releases/tag/v1.2.0) (2021-07-08)',
+        '======================================================================================',
+        '',
+        '## ✨ Features',
+        ` * Add a llama, which you can now name (hand edited) ${pr(1)}.`,
+        '',
+        '   It has a name.',
+        ` * Add a vicuña ${pr(4)}.`,
+        '',
+        '## 🐛 Bug Fixes',
+        ` * Fix the llama ${pr(3)}. Fixes #10.`,
+        '',
+        '',
+    ].join("\n"));
+    expect(merged.removed).toEqual(['https://github.com/bert/llamalist/pull/2']);
+});
+
+test('Merging keeps paragraphs added by hand', () => {
+    const existing = [
+        'Changes in [1.2.0](https://github.com/bert/llamalist/releases/tag/v1.2.0) (2021-07-01)',
+        '======================================================================================',
+        '',
+        'The llama release.',
+        '',
+        '## ✨ Features',
+        ` * Add a lama ${pr(1)}.`,
+        '',
+        'Llamas can be named in the settings.',
+        '',
+        '## 🐛 Bug Fixes',
+        ` * Fix teh llama ${pr(3)}. Fixes #10.`,
+        ` * Fix the alpaca ${pr(5)}.`,
+        '',
+        'Alpacas are still in beta.',
+        '',
+        '',
+    ].join("\n");
+
+    expect(mergeChangelogEntry(NEW_ENTRY, [existing]).text).toEqual([
+        'Changes in [1.2.0](https://github.com/bert/llamalist/releases/tag/v1.2.0) (2021-07-08)',
+        '======================================================================================',
+        '',
+        'The llama release.',
+        '',
+        '## ✨ Features',
+        ` * Add a lama ${pr(1)}.`,
+        '',
+        'Llamas can be named in the settings.',
+        ` * Add a vicuña ${pr(4)}.`,
+        '',
+        '## 🐛 Bug Fixes',
+        ` * Fix teh llama ${pr(3)}. Fixes #10.`,
+        '',
+        'Alpacas are still in beta.',
+        '',
+        '',
+    ].join("\n"));
+});
+
+test('Updating the changelog merges with prerelease entries when asked to', () => {
+    const changelog = '# Changelog\n\n' + RC_ENTRY;
+    expect(updateChangelogText(changelog, NEW_ENTRY, '1.2.0')).toEqual('# Changelog\n\n' + NEW_ENTRY);
+    expect(updateChangelogText(changelog, NEW_ENTRY, '1.2.0', { merge: true }))
+        .toEqual('# Changelog\n\n' + mergeChangelogEntry(NEW_ENTRY, [RC_ENTRY]).text);
+});
@@ -0,0 +1,189 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+// The link after a change's notes, to its PR or commit, eg. "([\#123](https://...))."
+const CHANGE_LINK_REGEXP = /\(\[(\\?#(\d+)|[0-9a-f]{7,40})]\(([^)\s]+)\)\)\./g;
+export const LIST_ITEM_REGEXP = /^\s{0,3}[*-]\s+(.*)$/;
+// A link reference definition, eg. the one keepachangelog puts after each entry for its version
+const LINK_REFERENCE_REGEXP = /^\s{0,3}\[[^\]]+]:\s/;
+
+// The link after a change's notes, and where it is in the text
+export interface IChangeLink {
+    url: string;
+    pr: number | null;
+    commit: string | null;
+    index: number;
+    length: number;
+}
+
+// A run of lines in an entry: a list item, with anything nested under it, or whatever comes between them
+interface ISegment {
+    lines: string[];
+    // The link to the change the item is for, or null if it isn't one
+    url: string | null;
+}
+
+// The link to the change that a list item is for, which is the last such link in its first paragraph,
+// in case the notes have links of their own
+export function findChangeLink(text: string): IChangeLink | null {
+    let link: RegExpExecArray = null;
+    let match: RegExpExecArray;
+    CHANGE_LINK_REGEXP.lastIndex = 0;
+    while ((match = CHANGE_LINK_REGEXP.exec(text)) !== null) link = match;
+    if (link === null) return null;
+
+    return {
+        url: link[3],
+        pr: link[2] ? Number(link[2]) : null,
+        commit: link[2] ? null : link[1],
+        index: link.index,
+        length: link[0].length,
+    };
+}
+
+function splitSegments(text: string): ISegment[] {
+    const segments: ISegment[] = [];
+    const addLine = (line: string) => {
+        const last = segments[segments.length - 1];
+        if (last && last.url === null && !LIST_ITEM_REGEXP.test(last.lines[0])) {
+            last.lines.push(line);
+        } else {
+            segments.push({ lines: [line], url: null });
+        }
+    };
+
+    let item: ISegment = null;
+    let blanks: string[] = [];
+    for (const line of text.split("\n")) {
+        if (LIST_ITEM_REGEXP.test(line)) {
+            blanks.forEach(addLine);
+            blanks = [];
+            item = { lines: [line], url: null };
+            segments.push(item);
+        } else if (item && line.trim() === '') {
+            // only part of the item if something nested under it comes after
+            blanks.push(line);
+        } else if (item && /^\s/.test(line)) {
+            item.lines.push(...blanks, line);
+            blanks = [];
+        } else {
+            blanks.forEach(addLine);
+            blanks = [];
+            item = null;
+            addLine(line);
+        }
+    }
+    blanks.forEach(addLine);
+
+    for (const segment of segments.filter(s => LIST_ITEM_REGEXP.test(s.lines[0]))) {
+        const blank = segment.lines.findIndex(l => l.trim() === '');
+        const firstParagraph = blank === -1 ? segment.lines : segment.lines.slice(0, blank);
+        segment.url = findChangeLink(firstParagraph.join("\n"))?.url ?? null;
+    }
+    return segments;
+}
+
+// How many lines an entry's version heading takes: one, or two if it's underlined
+function headingLength(lines: string[]): number {
+    return lines.length > 1 && /^(=+|-+)\s*$/.test(lines[1]) ? 2 : 1;
+}
+
+// The text in an entry that isn't in the new one and isn't part of a list item, such as paragraphs
+// added by hand, keyed by what it comes after: the link of a change, a line that's also in the new
+// entry, or '' for the version's heading. Each comes with the blank lines before it.
+function findHandWritten(
+    entry: string, newUrls: Set<string>, newLines: Set<string>, handWritten: Map<string, string[]>,
+) {
+    const lines = entry.split("\n");
+    const segments = splitSegments(lines.slice(headingLength(lines)).join("\n"));
+    const seen = new Set([].concat(...handWritten.values()).map((l: string) => l.trim()));
+
+    let after = '';
+    let blanks: string[] = [];
+    for (const segment of segments) {
+        if (LIST_ITEM_REGEXP.test(segment.lines[0])) {
+            if (segment.url && newUrls.has(segment.url)) after = segment.url;
+            blanks = [];
+            continue;
+        }
+        for (const line of segment.lines) {
+            const trimmed = line.trim();
+            if (trimmed === '') {
+                blanks.push(line);
+            } else if (newLines.has(trimmed)) {
+                after = trimmed;
+                blanks = [];
+            } else if (!seen.has(trimmed) && !LINK_REFERENCE_REGEXP.test(line)) {
+                // in case a prerelease's entry has the same text
+                seen.add(trimmed);
+                if (!handWritten.has(after)) handWritten.set(after, []);
+                handWritten.get(after).push(...blanks, line);
+                blanks = [];
+            }
+        }
+    }
+}
+
+// Merges a freshly made entry for a version with what the changelog already has for it: its existing
+// entry, or those for its prereleases, newest first. Each change that's in the existing entries keeps its
+// text from there, as it may have been edited by hand since, and the rest of the new entry, including
+// any changes that are new, stays as it is. Text outside the list of changes that was added by hand, such
+// as a paragraph between sections, is kept after whatever it came after, if that's still there, or else
+// after the nearest thing before it that is.
+// Returns the merged entry, and the links of any changes that were in the existing entries but
+// aren't in the new one.
+export function mergeChangelogEntry(newEntry: string, existingEntries: string[]): { text: string, removed: string[] } {
+    const existingItems = new Map<string, string[]>();
+    for (const entry of existingEntries) {
+        for (const segment of splitSegments(entry)) {
+            if (segment.url && !existingItems.has(segment.url)) existingItems.set(segment.url, segment.lines);
+        }
+    }
+
+    const segments = splitSegments(newEntry);
+    const newUrls = new Set(segments.map(s => s.url).filter(url => url !== null));
+    const newLines = new Set(
+        [].concat(...segments.filter(s => !LIST_ITEM_REGEXP.test(s.lines[0])).map(s => s.lines))
+            .map((l: string) => l.trim())
+            .filter(l => l !== ''),
+    );
+    const handWritten = new Map<string, string[]>();
+    for (const entry of existingEntries) findHandWritten(entry, newUrls, newLines, handWritten);
+
+    const lines: string[] = [];
+    const addHandWritten = (after: string) => {
+        lines.push(...(handWritten.get(after) ?? []));
+        handWritten.delete(after);
+    };
+    const heading = headingLength(newEntry.split("\n"));
+    for (const segment of segments) {
+        if (LIST_ITEM_REGEXP.test(segment.lines[0])) {
+            lines.push(...((segment.url && existingItems.get(segment.url)) || segment.lines));
+            if (segment.url) addHandWritten(segment.url);
+            continue;
+        }
+        for (const line of segment.lines) {
+            lines.push(line);
+            if (lines.length === heading) addHandWritten('');
+            if (line.trim() !== '') addHandWritten(line.trim());
+        }
+    }
+
+    return {
+        text: lines.join("\n"),
+        removed: [...existingItems.keys()].filter(url => !newUrls.has(url)),
+    };
+}
@@ -0,0 +1,70 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ChangeType, DEFAULT_CHANGE_TYPES, IChange } from './changes';
+import { renderMigrationGuide } from './migration';
+import { mockChange, mockPr } from './test-utils';
+
+function mockBreakingChange(number: number, repo: string, notes: string, migration: string | null): IChange {
+    return mockChange({ pr: mockPr(number, repo), notes, changeType: ChangeType.FEATURE, breaking: true, migration });
+}
+
+test('Migration notes grouped by project', () => {
+    const excluded = mockBreakingChange(4, 'llama-core', 'Rename the alpacas', 'Use `alpaca2`.');
+    excluded.shouldInclude = false;
+    const changes = {
+        'llamalist': [
+            mockBreakingChange(
+                1, 'llamalist', 'Remove the old llama API\n\nIt was old.',
+                'Use `llama.fly()` instead:\n\n    llama.fly();',
+            ),
+            mockBreakingChange(2, 'llamalist', 'Make llamas faster', null),
+        ],
+        'llama-core': [mockBreakingChange(3, 'llama-core', 'Llamas need names', 'Give each llama a `name`.'), excluded],
+        'alpaca-core': [mockBreakingChange(5, 'alpaca-core', 'Make alpacas faster', null)],
+    };
+
+    expect(renderMigrationGuide('llamalist', changes, '2.0.0', DEFAULT_CHANGE_TYPES)).toEqual([
+        'Upgrading to llamalist 2.0.0',
+        '============================',
+        '',
+        '## llamalist',
+        '',
+        '### Remove the old llama API ([\\#1](https://github.com/bert/llamalist/pull/1))',
+        '',
+        'Use `llama.fly()` instead:',
+        '',
+        '    llama.fly();',
+        '',
+        '## llama-core',
+        '',
+        '### Llamas need names ([\\#3](https://github.com/bert/llama-core/pull/3))',
+        '',
+        'Give each llama a `name`.',
+        '',
+    ].join("\n"));
+});
+
+test('No migration guide without migration notes', () => {
+    const changes = { 'llamalist': [mockBreakingChange(1, 'llamalist', 'Make llamas faster', null)] };
+    expect(renderMigrationGuide('llamalist', changes, '2.0.0', DEFAULT_CHANGE_TYPES)).toEqual(null);
+});
+
+test('Migration notes on changes that are not breaking are ignored', () => {
+    const change = mockBreakingChange(1, 'llamalist', 'Make llamas faster', 'Nothing to do.');
+    change.breaking = false;
+    expect(renderMigrationGuide('llamalist', { 'llamalist': [change] }, '2.0.0', DEFAULT_CHANGE_TYPES)).toEqual(null);
+});
@@ -0,0 +1,74 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fsProm from 'fs/promises';
+import path from 'path';
+import log from 'loglevel';
+
+import { changeLink, splitNotes } from './changelog';
+import { ChangeTypeConfig, IChange } from './changes';
+import { ChangesByProject, getChangeNotes, Project } from './projects';
+
+// The breaking changes from each project that say how to upgrade past them, leaving out projects that
+// have none. Anything else needn't be migrated past, so any migration text it has is ignored.
+export function getMigrations(changes: ChangesByProject): [string, IChange[]][] {
+    const migrations: [string, IChange[]][] = [];
+    for (const [projectName, projectChanges] of Object.entries(changes)) {
+        const withMigrations = projectChanges.filter(c => c.shouldInclude && c.breaking && c.migration);
+        if (withMigrations.length > 0) migrations.push([projectName, withMigrations]);
+    }
+    return migrations;
+}
+
+// A guide to upgrading to the version, made of the migration notes of its changes, grouped by the
+// project they're from. Null if none of the changes need migrating past.
+export function renderMigrationGuide(
+    projectName: string, changes: ChangesByProject, version: string, changeTypes: ChangeTypeConfig[],
+): string | null {
+    const migrations = getMigrations(changes);
+    if (migrations.length === 0) return null;
+
+    const title = `Upgrading to ${projectName} ${version}`;
+    const lines = [title, '='.repeat(title.length), ''];
+    for (const [fromProject, projectChanges] of migrations) {
+        lines.push(`## ${fromProject}`, '');
+        for (const change of projectChanges) {
+            const link = changeLink(change);
+            const { summary } = splitNotes(getChangeNotes(change, projectName, changeTypes));
+            lines.push(`### ${summary.replace(/\n/g, ' ')} ([${link.text.replace('#', '\\#')}](${link.url}))`, '');
+            lines.push(change.migration, '');
+        }
+    }
+    return lines.join("\n");
+}
+
+// Writes the version's migration guide where the project's config says, if it needs one.
+// Returns the path of the guide, or null if there wasn't one to write.
+export async function writeMigrationGuide(
+    project: Project, changes: ChangesByProject, version: string,
+): Promise<string | null> {
+    const { migration, changeTypes } = await project.getReleaseCfg(project.dir);
+    const guide = renderMigrationGuide(project.name, changes, version, changeTypes);
+    if (guide === null) {
+        log.debug(`No migration notes for ${version}, so no migration guide`);
+        return null;
+    }
+
+    const guidePath = path.join(project.dir, migration.path.replace(/{version}/g, version));
+    await fsProm.mkdir(path.dirname(guidePath), { recursive: true });
+    await fsProm.writeFile(guidePath, guide);
+    return guidePath;
+}
@@ -0,0 +1,121 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fsProm from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import semver from 'semver';
+
+import { renderChangelogEntry } from './changelog';
+import {
+    BranchMode,
+    branchModeForRef,
+    findReleaseBranch,
+    formatBranchPattern,
+    getProjectName,
+    Project,
+    VersioningConfig,
+} from './projects';
+import { commitFiles, git, makeRepo } from './test-utils';
+
+const versioning: VersioningConfig = {
+    defaultBranch: 'main',
+    releaseBranches: ['release-v{major}.{minor}', 'next'],
+    remote: 'upstream',
+    tagPrefix: 'v',
+};
+
+test('Release branch patterns', () => {
+    expect(formatBranchPattern('release-v{major}.{minor}.{patch}', semver.parse('1.9.3'))).toEqual('release-v1.9.3');
+    expect(formatBranchPattern('staging', semver.parse('1.9.3'))).toEqual('staging');
+});
+
+test('Branch mode for refs', () => {
+    expect(branchModeForRef('main', versioning)).toEqual(BranchMode.Develop);
+    expect(branchModeForRef('release-v1.9', versioning)).toEqual(BranchMode.Release);
+    expect(branchModeForRef('next', versioning)).toEqual(BranchMode.Release);
+    expect(branchModeForRef('release-v1x9', versioning)).toEqual(BranchMode.Exact);
+    expect(branchModeForRef('v1.9.3', versioning)).toEqual(BranchMode.Exact);
+});
+
+test('Release branches found on the remote without a local copy', async () => {
+    const tmpDir = await fsProm.mkdtemp(path.join(os.tmpdir(), 'allchange-test-'));
+    try {
+        const originDir = await makeRepo(tmpDir, 'llamalist');
+        git(originDir, 'branch', 'release-v1.9');
+        git(originDir, 'branch', 'next');
+        const dir = path.join(tmpDir, 'clone');
+        git(tmpDir, 'clone', '--quiet', '--origin', 'upstream', originDir, dir);
+        git(dir, 'branch', 'release-v2.0');
+
+        // the first pattern that exists wins, whether the branch is local or only on the remote
+        expect(await findReleaseBranch(dir, versioning, semver.parse('1.9.3'))).toEqual('release-v1.9');
+        expect(await findReleaseBranch(dir, versioning, semver.parse('2.0.0'))).toEqual('release-v2.0');
+        expect(await findReleaseBranch(dir, versioning, semver.parse('2.1.0'))).toEqual('next');
+        const withoutNext = { ...versioning, releaseBranches: ['release-v{major}.{minor}'] };
+        expect(await findReleaseBranch(dir, withoutNext, semver.parse('2.1.0'))).toEqual(null);
+    } finally {
+        await fsProm.rm(tmpDir, { recursive: true });
+    }
+});
+
+test('Projects without package.json named from their manifest or repository', async () => {
+    const tmpDir = await fsProm.mkdtemp(path.join(os.tmpdir(), 'allchange-test-'));
+    try {
+        const dir = path.join(tmpDir, 'llama-rs');
+        await fsProm.mkdir(dir);
+        git(dir, 'init', '--quiet');
+        git(dir, 'remote', 'add', 'origin', 'git@github.com:bert/llama-rs.git');
+        expect(await getProjectName(dir)).toEqual('llama-rs');
+
+        await commitFiles(dir, 'Initial commit', { 'Cargo.toml': '[package]\nname = "llama"\nversion = "0.1.0"\n' });
+        expect(await getProjectName(dir)).toEqual('llama');
+        const project = await Project.make(await getProjectName(dir), dir);
+        expect([project.name, project.owner, project.repo]).toEqual(['llama', 'bert', 'llama-rs']);
+    } finally {
+        await fsProm.rm(tmpDir, { recursive: true });
+    }
+});
+
+test('Projects taking changes from commits work without a forge', async () => {
+    const tmpDir = await fsProm.mkdtemp(path.join(os.tmpdir(), 'allchange-test-'));
+    try {
+        const dir = path.join(tmpDir, 'llamalist');
+        await fsProm.mkdir(dir);
+        git(dir, 'init', '--quiet');
+        await commitFiles(dir, 'Initial commit', { 'release_config.yaml': 'changeSource: commits\n' });
+        git(dir, 'tag', 'v1.0.0');
+        await commitFiles(dir, 'Make llamas fly\n\nType: feature');
+        git(dir, 'tag', 'v1.1.0');
+        const sha = git(dir, 'rev-parse', '--short=7', 'HEAD').trim();
+
+        // no package.json or remote at all
+        const project = await Project.make(await getProjectName(dir), dir);
+        expect([project.name, project.forge]).toEqual(['llamalist', null]);
+        const changes = {};
+        await project.collectChanges(changes, 'v1.0.0', 'v1.1.0', BranchMode.Exact);
+        const entry = await renderChangelogEntry(project, changes['llamalist'], '1.1.0');
+        expect(entry).toMatch(/^Changes in 1\.1\.0 \(\d{4}-\d{2}-\d{2}\)\n/);
+        expect(entry).toContain(` * Make llamas fly (${sha}).`);
+
+        // nor a forge we know
+        git(dir, 'remote', 'add', 'origin', 'https://git.example.com/bert/llamalist.git');
+        const mirrored = await Project.make('llamalist', dir);
+        expect([mirrored.owner, mirrored.repo, mirrored.forge]).toEqual(['bert', 'llamalist', null]);
+    } finally {
+        await fsProm.rm(tmpDir, { recursive: true });
+    }
+});
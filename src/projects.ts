@@ -1,28 +1,43 @@
 import log from 'loglevel';
 import yaml from 'js-yaml';
-import semver from 'semver';
+import semver, { SemVer } from 'semver';
 import fsProm from 'fs/promises';
 import path from 'path';
 import { execFile } from "child_process";
 
 import {
+    changeFromAdvisoryMerge,
+    changeFromCommit,
     changeFromPrInfo,
-    ChangeType,
+    ChangeTypeConfig,
+    DEFAULT_CHANGE_TYPES,
+    getChangeTypeConfig,
+    getAdvisoryMerges,
+    getCommits,
     getMergedPrs,
-    getPrInfo,
-    githubOrgRepoFromDir,
     IChange,
+    INCLUDED_REASONS,
+    InclusionReasonType,
+    MergeCommit,
+    parseCoAuthor,
+    PrInfo,
 } from "./changes";
-import { Octokit } from '@octokit/rest';
+import { Forge, ForgeType, makeForge, repositoryFromDir } from './forge';
+import { PrCache } from './cache';
+import { Workspace } from './workspace';
+import { getManifestName, getPinnedVersion, IPinnedVersion, MANIFEST_TYPES, ManifestType } from './manifests';
 
 export enum BranchMode {
     Exact, // Comparing actual released versions: use the version as-is
     Release, // Comparing a future release on a release branch: compare against tip of the release branch
-    Develop, // Comparing a future release where no release branch exists: compare against tip of develop
+    Develop, // Comparing a future release where no release branch exists: compare against tip of the default branch
 }
 
 export type ChangesByProject = Record<string, IChange[]>;
 
+// Where a project's changes come from: merged PRs (looked up on GitHub), or the commits themselves
+export type ChangeSource = 'pulls' | 'commits';
+
 export interface SubProjectConfig {
     // Whether to pull all changes in from the subproject by default (true) or exclude them unless
     // they explicitly have notes for this project (false)
@@ -30,12 +45,69 @@ export interface SubProjectConfig {
     // Special hack for element-desktop: it wants all changes from element-web but element-web
     // is not in its dependencies. Instead, the version is identical to that of element-desktop.
     mirrorVersion: boolean;
+    // Where the subproject is checked out, relative to this project. Defaults to a directory
+    // named after the subproject next to this one.
+    path?: string;
+    // Where to clone the subproject from, if it isn't checked out locally
+    url?: string;
+    // Where this project says which version of the subproject it uses
+    manifest: ManifestType;
+    // The name of the dependency in the manifest, or the path to the submodule or version file.
+    // Defaults to the name of the subproject.
+    key: string;
+}
+
+export interface VersioningConfig {
+    // The branch that future releases are made from if they don't have a release branch yet
+    defaultBranch: string;
+    // Branches that a release might be made from before it's tagged, in order of preference.
+    // {major}, {minor} and {patch} are replaced with the parts of the version being released.
+    releaseBranches: string[];
+    // The remote to compare branches on, so local copies of them needn't be up to date
+    remote: string;
+    // What comes before the version in release tags
+    tagPrefix: string;
+}
+
+export interface MigrationConfig {
+    // Where to write the migration guide for each version, relative to the project's root.
+    // {version} is replaced with the version.
+    path: string;
+    // Whether the PR checker fails breaking changes that don't say how to migrate
+    required: boolean;
+}
+
+export interface ContributorsConfig {
+    // Whether each version's changelog entry thanks the people outside the project who contributed to it
+    acknowledge: boolean;
+    // Usernames (or names, for co-authors without one) to leave out of the acknowledgements, eg. bots.
+    // * matches any characters.
+    exclude: string[];
 }
 
 export interface ReleaseConfig {
     subprojects: Record<string, SubProjectConfig>;
+    // The types of change this project uses, in the order they appear in the changelog
+    changeTypes: ChangeTypeConfig[];
+    // Whether PR titles follow Conventional Commits, so can give the type, scope and notes of a change
+    conventionalCommits: boolean;
+    changeSource: ChangeSource;
+    // Where the project is hosted, if it can't be worked out from the repository URL
+    forge?: ForgeType;
+    // Path to a template for changelog entries, relative to the project's root
+    changelogTemplate?: string;
+    versioning: VersioningConfig;
+    migration: MigrationConfig;
+    contributors: ContributorsConfig;
 }
 
+const DEFAULT_RELEASE_BRANCHES = [
+    'release-v{major}.{minor}.{patch}',
+    // maintenance branches, for patch releases to older versions
+    'release-v{major}.{minor}',
+    'staging',
+];
+
 export interface IProject {
     name: string;
     owner: string;
@@ -64,6 +136,81 @@ export async function getPackageJsonAtVersion(dir: string, ver: string): Promise
     return gitShow(ver);
 }
 
+// The project's name, from its manifest, or for projects without one that names them, its repository,
+// or failing that, eg. for a local checkout with no remote, its directory
+export async function getProjectName(dir: string): Promise<string> {
+    const manifestName = await getManifestName(dir);
+    if (manifestName) return manifestName;
+    try {
+        return (await repositoryFromDir(dir)).repo;
+    } catch (e) {
+        log.debug(`Naming the project in ${dir} after its directory: ${e.message}`);
+        return path.basename(path.resolve(dir));
+    }
+}
+
+export async function loadReleaseConfig(dir: string): Promise<ReleaseConfig> {
+    let releaseConfig: ReleaseConfig;
+    try {
+        releaseConfig = yaml.load(
+            await fsProm.readFile(path.join(dir, 'release_config.yaml'), 'utf8'),
+        ) as ReleaseConfig;
+    } catch {
+        releaseConfig = {} as ReleaseConfig;
+    }
+    // an empty file loads as undefined
+    if (!releaseConfig) releaseConfig = {} as ReleaseConfig;
+
+    if (releaseConfig.subprojects === undefined) releaseConfig.subprojects = {};
+    for (const [name, subProject] of Object.entries(releaseConfig.subprojects)) {
+        releaseConfig.subprojects[name] = {
+            manifest: 'package.json',
+            key: name,
+            ...subProject,
+        };
+        if (!MANIFEST_TYPES.includes(releaseConfig.subprojects[name].manifest)) {
+            throw new Error(`Unknown manifest '${releaseConfig.subprojects[name].manifest}' for subproject ${name}`);
+        }
+    }
+    releaseConfig.conventionalCommits = Boolean(releaseConfig.conventionalCommits);
+    if (releaseConfig.changeSource === undefined) releaseConfig.changeSource = 'pulls';
+    if (!['pulls', 'commits'].includes(releaseConfig.changeSource)) {
+        throw new Error(`Unknown changeSource '${releaseConfig.changeSource}' in release_config.yaml`);
+    }
+    releaseConfig.versioning = {
+        defaultBranch: 'develop',
+        releaseBranches: DEFAULT_RELEASE_BRANCHES,
+        remote: 'origin',
+        tagPrefix: 'v',
+        ...releaseConfig.versioning,
+    };
+    releaseConfig.migration = {
+        path: 'UPGRADING-{version}.md',
+        required: false,
+        ...releaseConfig.migration,
+    };
+    releaseConfig.contributors = {
+        acknowledge: false,
+        exclude: ['*[bot]'],
+        ...releaseConfig.contributors,
+    };
+    if (releaseConfig.changeTypes === undefined) {
+        releaseConfig.changeTypes = DEFAULT_CHANGE_TYPES;
+    } else {
+        releaseConfig.changeTypes = releaseConfig.changeTypes.map(t => ({
+            ...t,
+            name: String(t.name),
+            labels: t.labels || [],
+            conventionalTypes: t.conventionalTypes || [],
+            header: t.header || String(t.name),
+            changelog: t.changelog !== false,
+            bump: t.bump || 'patch',
+        }));
+    }
+
+    return releaseConfig;
+}
+
 export function branchExists(dir: string, branch: string): Promise<boolean> {
     return new Promise(resolve => {
         execFile('git', ['rev-parse', branch], {
@@ -74,25 +221,82 @@ export function branchExists(dir: string, branch: string): Promise<boolean> {
     });
 }
 
-function parseDepVersion(ver: string, dep: string): string {
-    if (isNaN(parseInt(ver[0]))) throw new Error(`Version ${ver} of dependency ${dep} is not exact!`);
+export function formatBranchPattern(pattern: string, version: SemVer): string {
+    return pattern.replace(/{(major|minor|patch)}/g, (_, part) => String(version[part]));
+}
+
+function isReleaseBranch(branch: string, patterns: string[]): boolean {
+    return patterns.some(pattern => {
+        const regexp = pattern.split(/{(?:major|minor|patch)}/)
+            .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('\\d+');
+        return new RegExp(`^${regexp}$`).test(branch);
+    });
+}
+
+// How we treat a git ref we've been asked to compare against: the default branch and release branches
+// are moving targets, whereas anything else (a tag or a commit) is taken as it is
+export function branchModeForRef(ref: string, versioning: VersioningConfig): BranchMode {
+    if (ref === versioning.defaultBranch) return BranchMode.Develop;
+    if (isReleaseBranch(ref, versioning.releaseBranches)) return BranchMode.Release;
+    return BranchMode.Exact;
+}
+
+// The first of the release branch patterns that exists for the version, if any do, either locally or
+// on the remote, since we compare against the remote's copy and it needn't have been checked out
+export async function findReleaseBranch(
+    dir: string, versioning: VersioningConfig, version: SemVer,
+): Promise<string | null> {
+    for (const pattern of versioning.releaseBranches) {
+        const branch = formatBranchPattern(pattern, version);
+        for (const ref of [`refs/heads/${branch}`, `refs/remotes/${versioning.remote}/${branch}`]) {
+            if (await branchExists(dir, ref)) return branch;
+        }
+    }
+    return null;
+}
+
+// The exact version of a dependency, allowing for an '=' as Cargo uses or a 'v' as Go uses
+function exactDepVersion(ver: string, dep: string): string {
+    const exact = semver.valid(ver.replace(/^=\s*/, ''));
+    if (exact === null) throw new Error(`Version ${ver} of dependency ${dep} is not exact!`);
+
+    return exact;
+}
+
+function parseDepVersion(pinned: IPinnedVersion, dep: string, versioning: VersioningConfig): string {
+    // if we're given the exact commit, we can use it as-is
+    if (pinned.commit) return pinned.commit;
 
-    return 'v' + ver;
+    return versioning.tagPrefix + exactDepVersion(pinned.version, dep);
 }
 
-function getDepVersion(ver: string, proj: string, branchMode: BranchMode) {
-    if (branchMode === BranchMode.Develop) {
-        return 'develop';
+async function getDepVersion(
+    pinned: IPinnedVersion, proj: string, branchMode: BranchMode, depDir: string, versioning: VersioningConfig,
+): Promise<string> {
+    if (pinned.commit) {
+        // an exact commit is what's going into the release, whether or not it's been released yet
+        return pinned.commit;
+    } else if (branchMode === BranchMode.Develop) {
+        return versioning.defaultBranch;
     } else if (branchMode == BranchMode.Release) {
-        const depSemVer = semver.parse(ver);
-        return `release-v${depSemVer.major}.${depSemVer.minor}.${depSemVer.patch}`;
+        const depSemVer = semver.parse(exactDepVersion(pinned.version, proj));
+        const releaseBranch = await findReleaseBranch(depDir, versioning, depSemVer);
+        if (releaseBranch === null) {
+            log.warn(`No release branch for ${proj} ${pinned.version}: using ${versioning.defaultBranch}`);
+            return versioning.defaultBranch;
+        }
+        return releaseBranch;
     } else {
-        return parseDepVersion(ver, proj);
+        return parseDepVersion(pinned, proj, versioning);
     }
 }
 
-export function getChangeNotes(change: IChange, projectName: string): string | null {
-    if ([ChangeType.TASK, null].includes(change.changeType)) return null;
+export function getChangeNotes(
+    change: IChange, projectName: string, changeTypes = DEFAULT_CHANGE_TYPES,
+): string | null {
+    // security fixes always go in the changelog, whatever type they are
+    if (!change.security && !getChangeTypeConfig(change.changeType, changeTypes)?.changelog) return null;
 
     return change.notesByProject[projectName] !== undefined ? change.notesByProject[projectName] : change.notes;
 }
@@ -101,6 +305,11 @@ export class Project {
     private releaseConfigCache = null;
     public owner: string = null;
     public repo: string = null;
+    public forge: Forge = null;
+    // If set, PR info is looked up here before asking the forge
+    public prCache: PrCache = null;
+    // Where subprojects that are cloned from a URL are kept
+    public workspace = new Workspace();
 
     static async make(name: string, dir: string) {
         const proj = new Project(name, dir);
@@ -113,50 +322,169 @@ export class Project {
     }
 
     private async init() {
-        const [owner, repo] = await githubOrgRepoFromDir(this.dir);
-        this.owner = owner;
-        this.repo = repo;
+        const releaseConfig = await this.getReleaseCfg(this.dir);
+        try {
+            const repository = await repositoryFromDir(this.dir);
+            this.owner = repository.owner;
+            this.repo = repository.repo;
+            this.forge = makeForge(repository, releaseConfig.forge);
+        } catch (e) {
+            // Projects that take their changes from commits can do without a forge, eg. a local checkout
+            // or a mirror on a host we don't know, but their changes aren't linked to anything
+            if (releaseConfig.changeSource !== 'commits') throw e;
+            log.debug(`Not linking changes in ${this.name}: ${e.message}`);
+        }
     }
 
     public async getReleaseCfg(dir: string): Promise<ReleaseConfig> {
         if (this.releaseConfigCache !== null) return this.releaseConfigCache;
 
+        this.releaseConfigCache = await loadReleaseConfig(dir);
+        return this.releaseConfigCache;
+    }
+
+    private inclusionReasonType(
+        forProject: Project, forProjectConfig: ReleaseConfig, change: IChange, excludedBy: string | null,
+    ): InclusionReasonType {
+        const changeType = getChangeTypeConfig(change.changeType, forProjectConfig.changeTypes);
+        if (!change.security) {
+            if (!changeType) return 'no-type';
+            if (!changeType.changelog) return 'type-not-in-changelog';
+        }
+        if (change.notesByProject[forProject.name] === null) return 'project-notes-none';
+        if (getChangeNotes(change, forProject.name, forProjectConfig.changeTypes) === null) return 'notes-none';
+        if (change.notesByProject[forProject.name]) return 'project-notes';
+
+        return excludedBy === null ? 'included-by-default' : 'excluded-by-default';
+    }
+
+    // Where the subproject is checked out: where we're told, cloned from its URL, or otherwise
+    // in the same parent directory as our project, named accordingly
+    private async subProjectDir(name: string, config: SubProjectConfig): Promise<string> {
+        if (config.url) return this.workspace.checkout(name, config.url);
+
+        const dir = config.path ?
+            path.resolve(this.dir, config.path) :
+            path.normalize(path.join(this.dir, '..', name));
         try {
-            this.releaseConfigCache = yaml.load(
-                await fsProm.readFile(path.join(dir, 'release_config.yaml')),
-            ) as ReleaseConfig;
-            if (this.releaseConfigCache.subprojects === undefined) this.releaseConfigCache.subprojects = {};
-            return this.releaseConfigCache;
+            await fsProm.access(dir);
         } catch {
-            return { subprojects: {} } as ReleaseConfig;
+            throw new Error(`Subproject ${name} isn't checked out at ${dir}: set 'path' or 'url' to say where it is`);
         }
+        return dir;
+    }
+
+    // Fails if we don't have the ref, rather than quietly finding no changes
+    private async checkRefExists(ref: string): Promise<void> {
+        if (await branchExists(this.dir, ref)) return;
+
+        throw new Error(
+            `Can't find ${ref} in ${this.name} (${this.dir}): ` +
+            `make sure it's up to date, or set 'url' for the subproject to have it fetched automatically`,
+        );
     }
 
-    private shouldIncludeChange(forProject: Project, change: IChange, includeByDefault: boolean) {
-        if (getChangeNotes(change, forProject.name) === null) return false;
-        if (change.notesByProject[forProject.name]) return true;
+    // The remote's copy of branches, so we don't rely on the local copy of the branches being pulled.
+    // Tags and commits are left as they are.
+    private async gitRef(ref: string): Promise<string> {
+        const { versioning } = await this.getReleaseCfg(this.dir);
+        if (branchModeForRef(ref, versioning) === BranchMode.Exact) return ref;
+        return `${versioning.remote}/${ref}`;
+    }
 
-        return includeByDefault;
+    private getPrInfo(mergeCommits: MergeCommit[]): Promise<PrInfo[]> {
+        if (this.prCache) return this.prCache.getPrInfo(this.forge, mergeCommits);
+        return this.forge.getPrInfo(mergeCommits);
+    }
+
+    // Replaces backports with the PR they backport, so a change that's been backported to
+    // several branches, or is in the range as well as its backport, only appears once
+    private async resolveBackports(changes: IChange[]): Promise<IChange[]> {
+        const releaseConfig = await this.getReleaseCfg(this.dir);
+        const changesByPr = new Map(changes.map(c => [c.pr.number, c]));
+
+        const missingOriginals = new Set(changes.map(c => c.backportOf).filter(n => n && !changesByPr.has(n)));
+        if (missingOriginals.size > 0) {
+            log.debug(`Fetching original PRs of backports: ${[...missingOriginals].join(', ')}`);
+            const originals = await this.getPrInfo([...missingOriginals].map(n => ({ PrNumber: n, sha: null })));
+            for (const pr of originals) {
+                changesByPr.set(pr.number, changeFromPrInfo(
+                    pr, releaseConfig.changeTypes, releaseConfig.conventionalCommits,
+                ));
+            }
+        }
+
+        const resolved = new Map<number, IChange>();
+        for (const change of changes) {
+            // if we couldn't find the original, the backport will have to do
+            const original = (change.backportOf && changesByPr.get(change.backportOf)) || change;
+            if (original !== change) log.debug(`PR ${change.pr.number} is a backport of ${original.pr.number}`);
+            if (!resolved.has(original.pr.number)) resolved.set(original.pr.number, original);
+        }
+        return [...resolved.values()];
+    }
+
+    // Security fixes often only say which GitHub security advisory they're for, so find the CVEs
+    // of the advisories too
+    private async addAdvisoryCves(changes: IChange[]): Promise<void> {
+        for (const change of changes) {
+            for (const id of change.advisories.filter(a => a.startsWith('GHSA-'))) {
+                const cve = await this.forge.getAdvisoryCve(id);
+                if (cve && !change.advisories.includes(cve)) change.advisories.unshift(cve);
+            }
+        }
     }
 
     public async collectChanges(
-        octo: Octokit, changes: ChangesByProject, fromVer: string, toVer: string, branchMode: BranchMode,
-        forProject = this, includeByDefault = true,
+        changes: ChangesByProject, fromVer: string, toVer: string, branchMode: BranchMode,
+        forProject = this, via = [this.name], excludedBy: string | null = null,
     ) {
         if (changes[this.name] !== undefined) return;
 
         const releaseConfig = await this.getReleaseCfg(this.dir);
+        const forProjectConfig = await forProject.getReleaseCfg(forProject.dir);
 
         log.debug(`Getting changes in ${this.name} from ${fromVer} to ${toVer}`);
-        const mergedPrs = await getMergedPrs(this.dir, fromVer, toVer);
-        log.debug("Found set of merged PRs: " + mergedPrs.map(pr => pr.PrNumber).join(', '));
-        log.debug(`Fetching PR metadata from ${this.owner}/${this.repo}...`);
-        const prInfo = await getPrInfo(octo, this.owner, this.repo, mergedPrs);
-
-        changes[this.name] = prInfo.map(changeFromPrInfo).map(c => {
-            c.shouldInclude = this.shouldIncludeChange(
-                forProject, c, includeByDefault,
-            );
+        const fromRef = await this.gitRef(fromVer);
+        const toRef = await this.gitRef(toVer);
+        await this.checkRefExists(fromRef);
+        await this.checkRefExists(toRef);
+        let projectChanges: IChange[];
+        if (releaseConfig.changeSource === 'commits') {
+            const commits = await getCommits(this.dir, fromRef, toRef);
+            log.debug(`Found ${commits.length} commits`);
+            projectChanges = commits.map(commit => changeFromCommit(
+                { ...commit, url: this.forge?.commitUrl(commit.sha) },
+                this.owner, this.repo, releaseConfig.changeTypes, releaseConfig.conventionalCommits,
+            ));
+        } else {
+            const mergedPrs = await getMergedPrs(this.dir, fromRef, toRef, this.forge.prNumberRegexps);
+            log.debug("Found set of merged PRs: " + mergedPrs.map(pr => pr.PrNumber).join(', '));
+            log.debug(`Fetching PR metadata from ${this.owner}/${this.repo} on ${this.forge.type}...`);
+            const prInfo = await this.getPrInfo(mergedPrs);
+            const coAuthorsByPr = new Map(mergedPrs.map(m => [m.PrNumber, m.coAuthors ?? []]));
+            projectChanges = await this.resolveBackports(prInfo.map(pr => ({
+                ...changeFromPrInfo(pr, releaseConfig.changeTypes, releaseConfig.conventionalCommits),
+                coAuthors: (coAuthorsByPr.get(pr.number) ?? []).map(parseCoAuthor),
+            })));
+
+            const advisoryMerges = await getAdvisoryMerges(this.dir, fromRef, toRef);
+            if (advisoryMerges.length > 0) log.debug(`Found ${advisoryMerges.length} security advisory merges`);
+            projectChanges.push(...advisoryMerges.map(commit => changeFromAdvisoryMerge(
+                { ...commit, url: this.forge.commitUrl(commit.sha) },
+                this.owner, this.repo, releaseConfig.changeTypes, releaseConfig.conventionalCommits,
+            )));
+        }
+        // projects that take their changes from commits don't need the forge at all, so don't look anything up
+        if (releaseConfig.changeSource !== 'commits') await this.addAdvisoryCves(projectChanges);
+
+        changes[this.name] = projectChanges.map(c => {
+            c.inclusionReason = {
+                type: this.inclusionReasonType(forProject, forProjectConfig, c, excludedBy),
+                via,
+            };
+            if (c.inclusionReason.type === 'excluded-by-default') c.inclusionReason.excludedBy = excludedBy;
+            c.shouldInclude = INCLUDED_REASONS.includes(c.inclusionReason.type);
             return c;
         });
 
@@ -165,17 +493,24 @@ export class Project {
         const subProjectVersAtToVer = {};
 
         if (Object.keys(subProjects).length > 0) {
-            const fromVerPackageJson = await getPackageJsonAtVersion(this.dir, fromVer);
-            const toVerPackageJson = await getPackageJsonAtVersion(this.dir, toVer);
+            for (const [proj, subProjectConfig] of Object.entries(subProjects)) {
+                const subDir = await this.subProjectDir(proj, subProjectConfig);
+
+                const subProject = await Project.make(proj, subDir);
+                subProject.prCache = this.prCache;
+                subProject.workspace = this.workspace;
+                const { versioning: subVersioning } = await subProject.getReleaseCfg(subDir);
 
-            for (const proj of Object.keys(subProjects)) {
-                if (subProjects[proj].mirrorVersion) {
+                if (subProjectConfig.mirrorVersion) {
                     subProjectVersAtFromVer[proj] = fromVer;
                     subProjectVersAtToVer[proj] = toVer;
                 } else {
-                    subProjectVersAtFromVer[proj] = parseDepVersion(fromVerPackageJson.dependencies[proj], proj);
-                    subProjectVersAtToVer[proj] = getDepVersion(
-                        toVerPackageJson.dependencies[proj], proj, branchMode,
+                    const { manifest, key } = subProjectConfig;
+                    subProjectVersAtFromVer[proj] = parseDepVersion(
+                        await getPinnedVersion(this.dir, fromVer, manifest, key), proj, subVersioning,
+                    );
+                    subProjectVersAtToVer[proj] = await getDepVersion(
+                        await getPinnedVersion(this.dir, toVer, manifest, key), proj, branchMode, subDir, subVersioning,
                     );
                 }
                 log.debug(
@@ -183,14 +518,9 @@ export class Project {
                     `${subProjectVersAtFromVer[proj]} - ${subProjectVersAtToVer[proj]}`,
                 );
 
-                // we assume subprojects have checkouts in the same parent directory
-                // as our project, named accordingly
-                const subDir = path.normalize(path.join(this.dir, '..', proj));
-
-                const subProject = await Project.make(proj, subDir);
                 await subProject.collectChanges(
-                    octo, changes, subProjectVersAtFromVer[proj], subProjectVersAtToVer[proj], branchMode,
-                    forProject, includeByDefault && subProjects[proj].includeByDefault,
+                    changes, subProjectVersAtFromVer[proj], subProjectVersAtToVer[proj], branchMode,
+                    forProject, [...via, proj], excludedBy ?? (subProjectConfig.includeByDefault ? null : proj),
                 );
             }
         }
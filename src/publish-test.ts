@@ -0,0 +1,122 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ChangeType, DEFAULT_CHANGE_TYPES } from './changes';
+import { parseRepositoryUrl } from './forge';
+import { GitHubForge } from './github';
+import { Project } from './projects';
+import { publishRelease } from './publish';
+import { Release } from './releases';
+import { mockChange, mockPr } from './test-utils';
+
+// A project on GitHub with the given releases, whose API calls to create and update releases are recorded
+function mockProject(existingReleases: Partial<Release>[]) {
+    const forge = new GitHubForge(parseRepositoryUrl('https://github.com/bert/llamalist'));
+    const repos = {
+        listReleases: jest.fn(),
+        createRelease: jest.fn(async ({ tag_name: tag }) => ({
+            data: { html_url: `https://github.com/bert/llamalist/releases/tag/${tag}` },
+        })),
+        updateRelease: jest.fn(async ({ release_id: id }) => ({
+            data: { html_url: existingReleases.find(r => r.id === id).html_url },
+        })),
+    };
+    Object.assign(forge, {
+        octo: { paginate: jest.fn(async () => existingReleases), rest: { repos } },
+    });
+
+    const project = {
+        name: 'llamalist',
+        owner: 'bert',
+        repo: 'llamalist',
+        dir: '/nonexistent',
+        forge,
+        getReleaseCfg: async () => ({
+            changeTypes: DEFAULT_CHANGE_TYPES,
+            versioning: { tagPrefix: 'v' },
+            contributors: { acknowledge: false, exclude: [] },
+        }),
+    } as unknown as Project;
+    return { project, repos };
+}
+
+const changes = [mockChange({ pr: mockPr(1), changeType: ChangeType.FEATURE, notes: 'Add a llama' })];
+const body = [
+    '## ✨ Features',
+    ' * Add a llama ([\\#1](https://github.com/bert/llamalist/pull/1)).',
+    '',
+    '',
+].join("\n");
+
+let log: jest.SpyInstance;
+beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(jest.fn());
+});
+afterEach(() => {
+    log.mockRestore();
+});
+
+test('Draft release created for a new version at the target', async () => {
+    const { project, repos } = mockProject([{ id: 1, tag_name: 'v1.1.0', html_url: 'https://example.com/1.1.0' }]);
+    await publishRelease(project, changes, '1.2.0-rc.1', 'release-v1.2.0');
+
+    expect(repos.updateRelease).not.toHaveBeenCalled();
+    expect(repos.createRelease).toHaveBeenCalledWith({
+        owner: 'bert',
+        repo: 'llamalist',
+        tag_name: 'v1.2.0-rc.1',
+        name: 'v1.2.0-rc.1',
+        body,
+        prerelease: true,
+        draft: true,
+        target_commitish: 'release-v1.2.0',
+    });
+    expect(log).toHaveBeenCalledWith(
+        'Created draft release v1.2.0-rc.1: https://github.com/bert/llamalist/releases/tag/v1.2.0-rc.1',
+    );
+});
+
+test('Existing release updated', async () => {
+    const { project, repos } = mockProject([
+        { id: 2, tag_name: 'v1.2.0', html_url: 'https://example.com/1.2.0' },
+        { id: 1, tag_name: 'v1.1.0', html_url: 'https://example.com/1.1.0' },
+    ]);
+    await publishRelease(project, changes, '1.2.0', 'release-v1.2.0');
+
+    expect(repos.createRelease).not.toHaveBeenCalled();
+    // the release's tag already exists, so it isn't moved, and it's left as a draft or not as it is
+    expect(repos.updateRelease).toHaveBeenCalledWith({
+        owner: 'bert',
+        repo: 'llamalist',
+        release_id: 2,
+        body,
+        prerelease: false,
+    });
+    expect(log).toHaveBeenCalledWith('Updated release v1.2.0: https://example.com/1.2.0');
+});
+
+test('Dry run says what would happen without doing it', async () => {
+    const { project, repos } = mockProject([{ id: 1, tag_name: 'v1.2.0', html_url: 'https://example.com/1.2.0' }]);
+    await publishRelease(project, changes, '1.3.0', 'develop', true);
+    await publishRelease(project, changes, '1.2.0', undefined, true);
+
+    expect(repos.createRelease).not.toHaveBeenCalled();
+    expect(repos.updateRelease).not.toHaveBeenCalled();
+    expect(log.mock.calls).toEqual([
+        [`Would create draft release v1.3.0 at develop: ${project.forge.releaseUrl('v1.3.0')}\n\n${body}`],
+        [`Would update release v1.2.0: https://example.com/1.2.0\n\n${body}`],
+    ]);
+});
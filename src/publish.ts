@@ -0,0 +1,49 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import semver from 'semver';
+
+import { renderChangelogEntry } from './changelog';
+import { IChange } from './changes';
+import { getProjectRenderer } from './formats';
+import { GitHubForge } from './github';
+import { Project } from './projects';
+
+// Creates or updates the GitHub release for the version, with its changelog entry as the notes. The tag
+// is created at the target, if it doesn't exist yet. With dryRun, it just says what it would do.
+export async function publishRelease(
+    project: Project, changes: IChange[], version: string, target?: string, dryRun = false,
+): Promise<void> {
+    if (!(project.forge instanceof GitHubForge)) {
+        throw new Error("Releases can only be created for projects on GitHub");
+    }
+
+    const { versioning } = await project.getReleaseCfg(project.dir);
+    const releaseSemVer = semver.parse(version);
+    const tag = versioning.tagPrefix + releaseSemVer.format();
+    // The release already says what version it is, so we don't want the heading
+    const body = await renderChangelogEntry(project, changes, null, await getProjectRenderer(project, 'markdown'));
+
+    const { created, url } = await project.forge.createOrUpdateRelease(
+        tag, body, releaseSemVer.prerelease.length > 0, target, dryRun,
+    );
+    if (dryRun) {
+        const at = created && target ? ` at ${target}` : '';
+        console.log(`Would ${created ? 'create draft' : 'update'} release ${tag}${at}: ${url}\n\n${body}`);
+    } else {
+        console.log(`${created ? 'Created draft' : 'Updated'} release ${tag}: ${url}`);
+    }
+}
@@ -0,0 +1,137 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { parseIssueRef } from './changes';
+import { findFixesFor, getEntriesBetween, parseChangelog } from './query';
+
+const CHANGELOG = [
+    '# Changelog',
+    '',
+    'Changes in [1.11.2](https://github.com/bert/llamalist/releases/tag/v1.11.2) (2021-08-01)',
+    '========================================================================================',
+    '',
+    '## ⭐ Highlights',
+    ' * Llamas can fly',
+    '   Up to 20mph',
+    '',
+    '## 🔒 SECURITY FIXES',
+    ' * Stop llamas escaping ([\\#5](https://github.com/bert/llamalist/pull/5)). ' +
+        'Fixes [CVE-2021-12345](https://www.cve.org/CVERecord?id=CVE-2021-12345) and #1234.',
+    '',
+    '## ✨ Features',
+    ' * Add a llama',
+    '   with a name ([\\#4](https://github.com/bert/llamalist/pull/4)). ' +
+        'Fixes #10 and bert/llama-core#2. Contributed by @alice.',
+    '',
+    '   ```js',
+    "   llama.name = 'Bert';",
+    '   ```',
+    ' * Add an alpaca ([abcdef1](https://github.com/bert/llamalist/commit/abcdef1234)).',
+    '',
+    '## 🙏 Acknowledgements',
+    ' * @alice (first contribution)',
+    ' * Carol Llama',
+    '',
+    '## [1.10.0] - 2021-07-01',
+    '',
+    '### Fixed',
+    '- Fix the llama ([#3](https://github.com/bert/llamalist/pull/3)). Fixes #1234.',
+    '',
+    '[1.10.0]: https://github.com/bert/llamalist/releases/tag/v1.10.0',
+    '',
+    'Changes in [1.9.0](https://github.com/bert/llamalist/releases/tag/v1.9.0) (2021-06-01)',
+    '======================================================================================',
+    '',
+    '## 🐛 Bug Fixes',
+    ' * Tidy up ([\\#1](https://github.com/bert/llamalist/pull/1)).',
+    '',
+].join("\n");
+
+test('Changelog parsed into entries, sections and changes', () => {
+    const entries = parseChangelog(CHANGELOG, 'bert', 'llamalist');
+
+    expect(entries.map(e => [e.version, e.date])).toEqual([
+        ['1.11.2', '2021-08-01'],
+        ['1.10.0', '2021-07-01'],
+        ['1.9.0', '2021-06-01'],
+    ]);
+
+    const [latest, previous] = entries;
+    expect(latest.highlights).toEqual(['Llamas can fly\nUp to 20mph']);
+    expect(latest.contributors).toEqual(['alice', 'Carol Llama']);
+    expect(latest.sections.map(s => [s.id, s.title])).toEqual([
+        ['security', '🔒 SECURITY FIXES'],
+        ['feature', '✨ Features'],
+    ]);
+    expect(latest.sections[0].changes[0]).toEqual({
+        summary: 'Stop llamas escaping',
+        details: null,
+        url: 'https://github.com/bert/llamalist/pull/5',
+        pr: 5,
+        commit: null,
+        fixes: [{ owner: 'bert', repo: 'llamalist', number: 1234 }],
+        advisories: ['CVE-2021-12345'],
+        contributor: null,
+    });
+    expect(latest.sections[1].changes).toEqual([{
+        summary: 'Add a llama\nwith a name',
+        details: "```js\nllama.name = 'Bert';\n```",
+        url: 'https://github.com/bert/llamalist/pull/4',
+        pr: 4,
+        commit: null,
+        fixes: [
+            { owner: 'bert', repo: 'llamalist', number: 10 },
+            { owner: 'bert', repo: 'llama-core', number: 2 },
+        ],
+        advisories: [],
+        contributor: 'alice',
+    }, {
+        summary: 'Add an alpaca',
+        details: null,
+        url: 'https://github.com/bert/llamalist/commit/abcdef1234',
+        pr: null,
+        commit: 'abcdef1',
+        fixes: [],
+        advisories: [],
+        contributor: null,
+    }]);
+
+    // the link reference after the last section isn't part of its last change
+    expect(previous.sections).toEqual([{
+        id: 'bugfix',
+        title: 'Fixed',
+        changes: [expect.objectContaining({ summary: 'Fix the llama', pr: 3, details: null })],
+    }]);
+});
+
+test('Entries between versions', () => {
+    const entries = parseChangelog(CHANGELOG, 'bert', 'llamalist');
+    expect(getEntriesBetween(entries, '1.9.0', '1.11.2').map(e => e.version)).toEqual(['1.11.2', '1.10.0']);
+    expect(getEntriesBetween(entries, null, '1.10.0').map(e => e.version)).toEqual(['1.10.0', '1.9.0']);
+    expect(getEntriesBetween(entries, '1.10.0', null).map(e => e.version)).toEqual(['1.11.2']);
+});
+
+test('Entries that fixed an issue', () => {
+    const entries = parseChangelog(CHANGELOG, 'bert', 'llamalist');
+
+    const fixed = findFixesFor(entries, parseIssueRef('#1234', 'bert', 'llamalist'));
+    expect(fixed.map(e => e.version)).toEqual(['1.11.2', '1.10.0']);
+    expect(fixed[0].sections.map(s => s.changes.map(c => c.pr))).toEqual([[5]]);
+
+    expect(findFixesFor(entries, parseIssueRef('bert/llama-core#2', 'bert', 'llamalist')).map(e => e.version))
+        .toEqual(['1.11.2']);
+    expect(findFixesFor(entries, parseIssueRef('#2', 'bert', 'llamalist'))).toEqual([]);
+});
@@ -0,0 +1,227 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import semver from 'semver';
+
+import {
+    ACKNOWLEDGEMENTS_SECTION,
+    HIGHLIGHTS_SECTION,
+    IChangelogEntry,
+    parseHeadingDate,
+    parseVersionHeading,
+    splitChangelog,
+    withoutEmoji,
+} from './changelog';
+import { DEFAULT_CHANGE_TYPES, IIssueID, parseIssueRef } from './changes';
+import { sectionIdsByTitle } from './formats';
+import { findChangeLink, LIST_ITEM_REGEXP } from './merge';
+
+// A change as it appears in the changelog, which is all we know about it once it's there
+export interface IParsedChange {
+    // The notes' first paragraph, and the rest of them, as for IChange
+    summary: string;
+    details: string | null;
+    // The change's link: to its PR, with the PR's number, or to its commit, with the commit's sha
+    url: string | null;
+    pr: number | null;
+    commit: string | null;
+    fixes: IIssueID[];
+    advisories: string[];
+    contributor: string | null;
+}
+
+export interface IParsedSection {
+    // As for IChangelogSection, or null if it isn't a section we know
+    id: string | null;
+    title: string;
+    changes: IParsedChange[];
+}
+
+export interface IParsedEntry {
+    version: string;
+    date: string | null;
+    highlights: string[];
+    sections: IParsedSection[];
+    // Who the entry credits, from its changes and its acknowledgements, by username where it gives one
+    contributors: string[];
+}
+
+// An issue mentioned in the text, eg. "#123" or "owner/repo#123"
+const ISSUE_MENTION_REGEXP = /(?:[\w.-]+\/[\w.-]+)?#\d+/g;
+const ADVISORY_LINK_REGEXP = /\[((?:CVE-\d+-\d+)|(?:GHSA(?:-[\w]{4}){3}))]\([^)]*\)/gi;
+const SECTION_HEADING_REGEXP = /^#{2,6}\s+(.*?)\s*$/;
+
+function allMatches(text: string, regexp: RegExp): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    let match: RegExpExecArray;
+    regexp.lastIndex = 0;
+    while ((match = regexp.exec(text)) !== null) matches.push(match);
+    return matches;
+}
+
+function dedent(lines: string[]): string {
+    const indent = Math.min(...lines.filter(l => l.trim()).map(l => l.match(/^\s*/)[0].length));
+    return lines.map(l => l.slice(indent)).join("\n").trim();
+}
+
+// Parses a list item from a section of changes, as makeChangeEntry (or the keepachangelog format)
+// writes it: the notes, then the link to the change, then the issues it fixes and who contributed it.
+// Issues without an owner and repo are taken to be the given project's.
+export function parseChangeItem(lines: string[], owner: string, repo: string): IParsedChange {
+    // the first paragraph is the item's own line, and anything after a blank line is nested under it
+    const blank = lines.findIndex(l => l.trim() === '');
+    const firstParagraph = (blank === -1 ? lines : lines.slice(0, blank)).map(l => l.trim()).join("\n");
+    const rest = blank === -1 ? [] : lines.slice(blank + 1);
+    const details = rest.some(l => l.trim()) ? dedent(rest) : null;
+
+    const link = findChangeLink(firstParagraph);
+    if (!link) {
+        return {
+            summary: firstParagraph, details, url: null, pr: null, commit: null, fixes: [], advisories: [],
+            contributor: null,
+        };
+    }
+
+    const suffix = firstParagraph.slice(link.index + link.length);
+    const fixesMatches = suffix.match(/Fixes (.*?)\.(?:\s|$)/);
+    const fixesText = fixesMatches ? fixesMatches[1] : '';
+    const contributorMatches = suffix.match(/Contributed by @([\w.[\]-]+?)\.?(?:\s|$)/);
+
+    return {
+        summary: firstParagraph.slice(0, link.index).trim(),
+        details,
+        url: link.url,
+        pr: link.pr,
+        commit: link.commit,
+        // leave out the advisories first, as their URLs may look like issues
+        fixes: allMatches(fixesText.replace(ADVISORY_LINK_REGEXP, ''), ISSUE_MENTION_REGEXP)
+            .map(m => parseIssueRef(m[0], owner, repo)),
+        advisories: allMatches(fixesText, ADVISORY_LINK_REGEXP).map(m => m[1]),
+        contributor: contributorMatches ? contributorMatches[1] : null,
+    };
+}
+
+// The list items in a section, each as its lines with the marker taken off the first. Anything
+// else that isn't indented, such as a link reference after the last section, ends the list.
+function listItems(lines: string[]): string[][] {
+    const items: string[][] = [];
+    let item: string[] = null;
+    for (const line of lines) {
+        const matches = line.match(LIST_ITEM_REGEXP);
+        if (matches) {
+            item = [matches[1]];
+            items.push(item);
+        } else if (item && (line.trim() === '' || /^\s/.test(line))) {
+            item.push(line);
+        } else {
+            item = null;
+        }
+    }
+    // trailing blank lines are the gap before the next section, not part of the item
+    for (const item of items) {
+        while (item.length > 1 && item[item.length - 1].trim() === '') item.pop();
+    }
+    return items;
+}
+
+// Turns the text of a version's entry, in the markdown or keepachangelog format, into its highlights,
+// sections of changes and contributors. Entries from templates are parsed as far as they look like ours.
+export function parseChangelogEntry(
+    entry: IChangelogEntry, owner: string, repo: string, changeTypes = DEFAULT_CHANGE_TYPES,
+): IParsedEntry {
+    const ids = sectionIdsByTitle(changeTypes);
+    const [headingLine, ...lines] = entry.text.split("\n");
+    const heading = parseVersionHeading(headingLine);
+
+    const parsed: IParsedEntry = {
+        version: semver.valid(entry.version) ?? entry.version.replace(/^v/, ''),
+        date: heading ? parseHeadingDate(heading.rest) : null,
+        highlights: [],
+        sections: [],
+        contributors: [],
+    };
+
+    // split the entry into sections, keeping headings inside fenced code blocks where they are
+    const sectionLines: { title: string, lines: string[] }[] = [];
+    let fence: string = null;
+    for (const line of lines) {
+        const trimmed = line.trim();
+        const fenceMatches = trimmed.match(/^(`{3,}|~{3,})/);
+        if (fence === null && fenceMatches) {
+            fence = fenceMatches[1];
+        } else if (fence !== null && fenceMatches && trimmed === fence[0].repeat(trimmed.length)) {
+            fence = null;
+        }
+
+        const headingMatches = fence === null && line.match(SECTION_HEADING_REGEXP);
+        if (headingMatches) {
+            sectionLines.push({ title: headingMatches[1], lines: [] });
+        } else if (sectionLines.length > 0) {
+            sectionLines[sectionLines.length - 1].lines.push(line);
+        }
+    }
+
+    const contributors = new Set<string>();
+    for (const section of sectionLines) {
+        const id = ids.get(withoutEmoji(section.title)) ?? null;
+        const items = listItems(section.lines);
+        if (id === HIGHLIGHTS_SECTION.id) {
+            parsed.highlights.push(...items.map(item => item.map(l => l.trim()).join("\n")));
+        } else if (id === ACKNOWLEDGEMENTS_SECTION.id) {
+            for (const item of items) {
+                contributors.add(item[0].replace(/\s*\(first contribution\)$/, '').replace(/^@/, ''));
+            }
+        } else {
+            const changes = items.map(item => parseChangeItem(item, owner, repo));
+            for (const change of changes.filter(c => c.contributor)) contributors.add(change.contributor);
+            parsed.sections.push({ id, title: section.title, changes });
+        }
+    }
+    parsed.contributors = [...contributors];
+
+    return parsed;
+}
+
+export function parseChangelog(
+    text: string, owner: string, repo: string, changeTypes = DEFAULT_CHANGE_TYPES,
+): IParsedEntry[] {
+    return splitChangelog(text).map(entry => parseChangelogEntry(entry, owner, repo, changeTypes));
+}
+
+// The entries for the versions after one version, up to and including another, eg. everything a user
+// upgrading from 1.9.0 to 1.11.2 gets. Either end can be left open with null.
+export function getEntriesBetween(entries: IParsedEntry[], from: string | null, to: string | null): IParsedEntry[] {
+    return entries.filter(entry => (
+        semver.valid(entry.version) &&
+        (from === null || semver.gt(entry.version, from)) &&
+        (to === null || semver.lte(entry.version, to))
+    ));
+}
+
+// The entries with changes that fix the issue, with only those changes in them. There's usually just
+// the one, but a fix may go in more than one release, eg. in a maintenance release as well.
+export function findFixesFor(entries: IParsedEntry[], issue: IIssueID): IParsedEntry[] {
+    const fixesIssue = (fix: IIssueID) => (
+        fix.number === issue.number && fix.owner === issue.owner && fix.repo === issue.repo
+    );
+    return entries.map(entry => ({
+        ...entry,
+        sections: entry.sections.map(section => ({
+            ...section,
+            changes: section.changes.filter(c => c.fixes.some(fixesIssue)),
+        })).filter(section => section.changes.length > 0),
+    })).filter(entry => entry.sections.length > 0);
+}
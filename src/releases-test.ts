@@ -0,0 +1,95 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import {
+    getLatestRelease,
+    getPreviousRelease,
+    getReleaseBefore,
+    Releases,
+    releasesContains,
+    withTagReleases,
+} from './releases';
+
+function makeReleases(names: string[], extra: Record<string, object> = {}): Releases {
+    return names.map(name => ({
+        name,
+        tag_name: name,
+        prerelease: /\d-/.test(name),
+        draft: false,
+        ...extra[name],
+    })) as unknown as Releases;
+}
+
+describe('getReleaseBefore', () => {
+    it('picks the previous version rather than the previous release', () => {
+        // v1.2.4 was a backport released after v1.3.0
+        const rels = makeReleases(['v1.2.4', 'v1.3.0', 'v1.2.3']);
+        expect(getReleaseBefore(rels, 'v1.3.0', false).name).toBe('v1.2.4');
+        expect(getReleaseBefore(rels, 'v1.2.4', false).name).toBe('v1.2.3');
+    });
+
+    it('skips prereleases unless asked for them', () => {
+        const rels = makeReleases(['v1.3.0', 'v1.3.0-rc.1', 'v1.2.0']);
+        expect(getReleaseBefore(rels, 'v1.3.0', false).name).toBe('v1.2.0');
+        expect(getReleaseBefore(rels, 'v1.3.0', true).name).toBe('v1.3.0-rc.1');
+    });
+
+    it('ignores drafts', () => {
+        const rels = makeReleases(['v1.3.0', 'v1.2.1', 'v1.2.0'], { 'v1.2.1': { draft: true } });
+        expect(getReleaseBefore(rels, 'v1.3.0', false).name).toBe('v1.2.0');
+        expect(releasesContains(rels, 'v1.2.1')).toBe(false);
+    });
+
+    it('throws if there is no earlier release', () => {
+        const rels = makeReleases(['v1.0.0']);
+        expect(() => getReleaseBefore(rels, 'v1.0.0', false)).toThrow();
+    });
+});
+
+describe('getPreviousRelease', () => {
+    it('picks the last release on the same line for a maintenance release', () => {
+        const rels = makeReleases(['v1.10.0', 'v1.9.2', 'v1.9.1']);
+        expect(getPreviousRelease(rels, 'v1.9.3', false).name).toBe('v1.9.2');
+        expect(getPreviousRelease(rels, 'v1.11.0', false).name).toBe('v1.10.0');
+    });
+});
+
+describe('tag prefixes', () => {
+    it('only considers tags with the prefix', () => {
+        const rels = makeReleases(['web-v2.0.0', 'v3.0.0', 'web-v1.9.0']);
+        expect(getLatestRelease(rels, false, 'web-v').name).toBe('web-v2.0.0');
+        expect(getPreviousRelease(rels, 'web-v2.1.0', false, 'web-v').name).toBe('web-v2.0.0');
+        expect(getReleaseBefore(rels, 'web-v2.0.0', false, 'web-v').name).toBe('web-v1.9.0');
+    });
+});
+
+describe('getLatestRelease', () => {
+    it('returns the highest version', () => {
+        const rels = makeReleases(
+            ['v1.4.0', 'v1.2.4', 'v2.0.0-rc.1', 'v1.3.0', 'nightly'], { 'v1.4.0': { draft: true } },
+        );
+        expect(getLatestRelease(rels, false).name).toBe('v1.3.0');
+        expect(getLatestRelease(rels, true).name).toBe('v2.0.0-rc.1');
+    });
+});
+
+describe('withTagReleases', () => {
+    it('adds tags that have no release', () => {
+        const rels = withTagReleases(makeReleases(['v1.2.0']), makeReleases(['v1.2.0', 'v1.1.0', 'v1.0.0']));
+        expect(rels.map(r => r.name)).toEqual(['v1.2.0', 'v1.1.0', 'v1.0.0']);
+        expect(getReleaseBefore(rels, 'v1.2.0', false).name).toBe('v1.1.0');
+    });
+});
@@ -16,49 +16,102 @@ limitations under the License.
 
 import { Octokit } from '@octokit/rest';
 import { Endpoints } from '@octokit/types';
+import semver from 'semver';
+import { execFile } from 'child_process';
 import { ArrayElement } from './changes';
 
-type Releases = Endpoints['GET /repos/{owner}/{repo}/releases']['response']['data'];
+export type Releases = Endpoints['GET /repos/{owner}/{repo}/releases']['response']['data'];
 export type Release = ArrayElement<Releases>;
 
-// nb. this only gets a single pag, so if your're looking for a release
-// more than 100 releases ago then, well, bad times.
 export async function getReleases(octo: Octokit, owner: string, repo: string): Promise<Releases> {
-    const rels = await octo.rest.repos.listReleases({
+    return octo.paginate(octo.rest.repos.listReleases, {
         owner, repo, per_page: 100,
     });
+}
 
-    return rels.data;
+// The version a release tag is for, or null if it isn't a version tag
+export function versionFromTag(tag: string, tagPrefix = 'v'): string | null {
+    if (!tag.startsWith(tagPrefix)) return null;
+    return semver.valid(tag.slice(tagPrefix.length));
 }
 
-export function releasesContains(rels: Releases, target: string): boolean {
-    return rels.some(r => r.name === target);
+// Treats each version tag in the repo as a release, for when we're not using GitHub at all.
+// Only the fields we use are filled in, and the newest version comes first, as with getReleases.
+export function getReleasesFromTags(dir: string, tagPrefix = 'v'): Promise<Releases> {
+    return new Promise((resolve, reject) => {
+        execFile('git', ['tag', '--list'], {
+            cwd: dir,
+        }, (error, stdout) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+
+            const tags = stdout.split("\n").map(t => t.trim()).filter(t => versionFromTag(t, tagPrefix));
+            resolve(tags.map(tag => ({
+                name: tag,
+                tag_name: tag,
+                prerelease: semver.prerelease(versionFromTag(tag, tagPrefix)) !== null,
+            })).sort(releaseComparator(tagPrefix)) as unknown as Releases);
+        });
+    });
 }
 
-export function getLatestRelease(rels: Releases, considerRCs: boolean): Release {
-    if (considerRCs) return rels[0];
+// Adds releases for any version tags that don't have a release of their own, eg. versions
+// from before a project started using GitHub releases
+export function withTagReleases(rels: Releases, tagRels: Releases, tagPrefix = 'v'): Releases {
+    const missing = tagRels.filter(tagRel => !rels.some(r => r.tag_name === tagRel.tag_name || r.name === tagRel.name));
+    return [...rels, ...missing].sort(releaseComparator(tagPrefix));
+}
 
-    for (const rel of rels) {
-        if (!rel.prerelease) return rel;
-    }
+// Newest first, by semver. Releases that aren't named after a version go last.
+function releaseComparator(tagPrefix: string): (a: Release, b: Release) => number {
+    return (a, b) => {
+        const aVer = versionFromTag(a.name, tagPrefix);
+        const bVer = versionFromTag(b.name, tagPrefix);
+        if (aVer && bVer) return semver.rcompare(aVer, bVer);
+        return Number(bVer !== null) - Number(aVer !== null);
+    };
 }
 
-export function getReleaseBefore(rels: Releases, target: string, considerRCs: boolean): Release {
-    let found = false;
+// Draft releases don't have tags yet, so we can't compare against them
+function publishedReleases(rels: Releases): Releases {
+    return rels.filter(r => !r.draft);
+}
 
-    for (const rel of rels) {
-        if (rel.name === target) {
-            found = true;
-        } else if (found) {
-            if (considerRCs || !rel.prerelease) {
-                return rel;
-            }
-        }
+function versionedReleases(rels: Releases, considerRCs: boolean, tagPrefix: string): Releases {
+    return publishedReleases(rels)
+        .filter(r => versionFromTag(r.name, tagPrefix) !== null && (considerRCs || !r.prerelease))
+        .sort(releaseComparator(tagPrefix));
+}
+
+export function releasesContains(rels: Releases, target: string): boolean {
+    return publishedReleases(rels).some(r => r.name === target);
+}
+
+export function getLatestRelease(rels: Releases, considerRCs: boolean, tagPrefix = 'v'): Release {
+    return versionedReleases(rels, considerRCs, tagPrefix)[0];
+}
+
+// The newest release with a lower version than the target, which needn't have been released yet.
+// This is the last release on the target's major.minor line if there's been one, so a patch release
+// from a maintenance branch is compared against that rather than whatever was released most recently.
+export function getPreviousRelease(rels: Releases, target: string, considerRCs: boolean, tagPrefix = 'v'): Release {
+    const targetVer = versionFromTag(target, tagPrefix);
+    const before = versionedReleases(rels, considerRCs, tagPrefix).find(r => (
+        semver.lt(versionFromTag(r.name, tagPrefix), targetVer)
+    ));
+    if (!before) {
+        throw new Error("Couldn't find release before " + target);
     }
+    return before;
+}
 
-    if (!found) {
+// As getPreviousRelease, for a target that's already been released
+export function getReleaseBefore(rels: Releases, target: string, considerRCs: boolean, tagPrefix = 'v'): Release {
+    if (!releasesContains(rels, target)) {
         throw new Error("Couldn't find release " + target);
-    } else {
-        throw new Error("Couldn't find release before " + target);
     }
+
+    return getPreviousRelease(rels, target, considerRCs, tagPrefix);
 }
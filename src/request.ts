@@ -0,0 +1,55 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import http from 'http';
+import https from 'https';
+
+export class HttpError extends Error {
+    constructor(public statusCode: number, message: string) {
+        super(message);
+    }
+}
+
+// A minimal JSON-over-HTTP client for the forges that don't come with one of their own
+export function requestJson<T = any>(url: string, headers: Record<string, string> = {}): Promise<T> {
+    const client = url.startsWith('http:') ? http : https;
+
+    return new Promise<T>((resolve, reject) => {
+        const req = client.get(url, {
+            headers: {
+                'Accept': 'application/json',
+                'User-Agent': 'allchange',
+                ...headers,
+            },
+        }, res => {
+            let body = '';
+            res.setEncoding('utf8');
+            res.on('data', chunk => body += chunk);
+            res.on('end', () => {
+                if (res.statusCode < 200 || res.statusCode >= 300) {
+                    reject(new HttpError(res.statusCode, `Request to ${url} failed with status ${res.statusCode}`));
+                    return;
+                }
+                try {
+                    resolve(body ? JSON.parse(body) : null);
+                } catch (e) {
+                    reject(e);
+                }
+            });
+        });
+        req.on('error', reject);
+    });
+}
@@ -0,0 +1,68 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { renderTemplate } from './template';
+
+test('Variables are substituted', () => {
+    expect(renderTemplate('Hello {{ name }}, v{{version.major}}!', {
+        name: 'Bert',
+        version: { major: 2 },
+    })).toEqual('Hello Bert, v2!');
+});
+
+test('Missing variables render as nothing', () => {
+    expect(renderTemplate('[{{missing}}] [{{a.b.c}}]', { a: null })).toEqual('[] []');
+});
+
+test('Sections iterate over lists', () => {
+    expect(renderTemplate('{{#items}}<{{name}}>{{/items}}', {
+        items: [{ name: 'a' }, { name: 'b' }],
+    })).toEqual('<a><b>');
+
+    expect(renderTemplate('{{#items}}{{.}},{{/items}}', { items: [1, 2, 3] })).toEqual('1,2,3,');
+});
+
+test('Sections can look up outer values', () => {
+    expect(renderTemplate('{{#items}}{{prefix}}{{name}} {{/items}}', {
+        prefix: '#',
+        items: [{ name: 'a' }, { name: 'b' }],
+    })).toEqual('#a #b ');
+});
+
+test('Sections and inverted sections are conditional', () => {
+    const template = '{{#flag}}yes{{/flag}}{{^flag}}no{{/flag}}';
+    expect(renderTemplate(template, { flag: true })).toEqual('yes');
+    expect(renderTemplate(template, { flag: false })).toEqual('no');
+    expect(renderTemplate(template, { flag: [] })).toEqual('no');
+});
+
+test('Standalone section tags and comments do not leave blank lines', () => {
+    const template = [
+        '{{! a comment }}',
+        'Start',
+        '{{#items}}',
+        ' * {{.}}',
+        '{{/items}}',
+        'End',
+    ].join("\n");
+
+    expect(renderTemplate(template, { items: ['a', 'b'] })).toEqual("Start\n * a\n * b\nEnd");
+});
+
+test('Mismatched sections are an error', () => {
+    expect(() => renderTemplate('{{#a}}{{/b}}', {})).toThrow();
+    expect(() => renderTemplate('{{#a}}', {})).toThrow();
+});
@@ -0,0 +1,117 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+// A small subset of Mustache (https://mustache.github.io/mustache.5.html): variables,
+// sections, inverted sections and comments, which is all changelog templates need.
+// Nothing is HTML-escaped, since changelogs are mostly Markdown.
+
+type TemplateNode = string | {
+    type: 'variable';
+    name: string;
+} | {
+    type: 'section';
+    name: string;
+    inverted: boolean;
+    children: TemplateNode[];
+};
+
+const TAG_REGEXP = /{{\s*([#^/!]?)\s*([^}]*?)\s*}}/g;
+// Section and comment tags on lines of their own don't leave a blank line behind
+const STANDALONE_TAG_REGEXP = /^[ \t]*({{\s*[#^/!][^}]*}})[ \t]*\r?\n/gm;
+
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: { name: string, children: TemplateNode[] }[] = [{ name: null, children: root }];
+
+    const stripped = template.replace(STANDALONE_TAG_REGEXP, '$1');
+    let lastIndex = 0;
+    let matches: RegExpExecArray;
+    TAG_REGEXP.lastIndex = 0;
+    while (matches = TAG_REGEXP.exec(stripped)) {
+        const current = stack[stack.length - 1];
+        if (matches.index > lastIndex) current.children.push(stripped.slice(lastIndex, matches.index));
+        lastIndex = TAG_REGEXP.lastIndex;
+
+        const [, sigil, name] = matches;
+        if (sigil === '!') continue;
+
+        if (sigil === '#' || sigil === '^') {
+            const section = { type: 'section' as const, name, inverted: sigil === '^', children: [] };
+            current.children.push(section);
+            stack.push(section);
+        } else if (sigil === '/') {
+            if (current.name !== name) {
+                throw new Error(`Unexpected {{/${name}}} in template: expected {{/${current.name}}}`);
+            }
+            stack.pop();
+        } else {
+            current.children.push({ type: 'variable', name });
+        }
+    }
+    if (stack.length > 1) {
+        throw new Error(`Unclosed section {{#${stack[stack.length - 1].name}}} in template`);
+    }
+    if (lastIndex < stripped.length) root.push(stripped.slice(lastIndex));
+
+    return root;
+}
+
+function lookup(contexts: any[], name: string): any {
+    if (name === '.') return contexts[contexts.length - 1];
+
+    const [first, ...rest] = name.split('.');
+    let value: any;
+    for (let i = contexts.length - 1; i >= 0; --i) {
+        if (contexts[i] !== null && typeof contexts[i] === 'object' && first in contexts[i]) {
+            value = contexts[i][first];
+            break;
+        }
+    }
+    for (const part of rest) {
+        if (value === null || value === undefined) return undefined;
+        value = value[part];
+    }
+    return value;
+}
+
+function renderNodes(nodes: TemplateNode[], contexts: any[]): string {
+    let output = '';
+    for (const node of nodes) {
+        if (typeof node === 'string') {
+            output += node;
+        } else if (node.type === 'variable') {
+            const value = lookup(contexts, node.name);
+            if (value !== null && value !== undefined) output += String(value);
+        } else {
+            const value = lookup(contexts, node.name);
+            const isEmpty = !value || (Array.isArray(value) && value.length === 0);
+            if (node.inverted) {
+                if (isEmpty) output += renderNodes(node.children, contexts);
+            } else if (Array.isArray(value)) {
+                for (const item of value) {
+                    output += renderNodes(node.children, [...contexts, item]);
+                }
+            } else if (!isEmpty) {
+                output += renderNodes(node.children, typeof value === 'object' ? [...contexts, value] : contexts);
+            }
+        }
+    }
+    return output;
+}
+
+export function renderTemplate(template: string, view: object): string {
+    return renderNodes(parseTemplate(template), [view]);
+}
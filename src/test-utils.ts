@@ -0,0 +1,89 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { execFileSync } from 'child_process';
+import fsProm from 'fs/promises';
+import path from 'path';
+
+import { ChangeType, IChange, PrInfo } from './changes';
+
+// Helpers for the tests, which aren't tests themselves
+
+// A PR by bert in one of bert's repos, with only the fields we use filled in
+export function mockPr(number: number, repo = 'llamalist', fields: Partial<PrInfo> = {}): PrInfo {
+    return {
+        number,
+        html_url: `https://github.com/bert/${repo}/pull/${number}`,
+        user: { login: 'bert' },
+        author_association: 'MEMBER',
+        base: { repo: { name: repo, owner: { login: 'bert' } } },
+        ...fields,
+    } as PrInfo;
+}
+
+// A change that goes in the changelog, with the given fields
+export function mockChange(fields: Partial<IChange> = {}): IChange {
+    return {
+        pr: null,
+        notes: 'A change',
+        notesByProject: {},
+        headline: null,
+        changeType: ChangeType.BUGFIX,
+        scope: null,
+        fixes: [],
+        breaking: false,
+        security: false,
+        advisories: [],
+        migration: null,
+        shouldInclude: true,
+        ...fields,
+    };
+}
+
+export function git(dir: string, ...args: string[]): string {
+    return execFileSync('git', args, {
+        cwd: dir,
+        encoding: 'utf8',
+        env: {
+            ...process.env,
+            GIT_AUTHOR_NAME: 'Bert', GIT_AUTHOR_EMAIL: 'bert@example.com',
+            GIT_COMMITTER_NAME: 'Bert', GIT_COMMITTER_EMAIL: 'bert@example.com',
+        },
+    }).trim();
+}
+
+export async function commitFiles(dir: string, message: string, files: Record<string, string> = {}) {
+    for (const [file, content] of Object.entries(files)) {
+        await fsProm.writeFile(path.join(dir, file), content);
+    }
+    git(dir, 'add', '.');
+    git(dir, 'commit', '--quiet', '--allow-empty', '-m', message);
+}
+
+// Makes a repository in parentDir for a project that takes its changes from commits, so we don't
+// need a forge
+export async function makeRepo(parentDir: string, name: string, files: Record<string, string> = {}): Promise<string> {
+    const dir = path.join(parentDir, name);
+    await fsProm.mkdir(dir);
+    git(dir, 'init', '--quiet', '--initial-branch=main');
+    await fsProm.writeFile(path.join(dir, 'package.json'), JSON.stringify({
+        name,
+        repository: { type: 'git', url: `https://github.com/bert/${name}` },
+    }));
+    await fsProm.writeFile(path.join(dir, 'release_config.yaml'), 'changeSource: commits\n');
+    await commitFiles(dir, 'Initial commit', files);
+    return dir;
+}
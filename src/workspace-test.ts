@@ -0,0 +1,135 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fsProm from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { BranchMode, ChangesByProject, Project } from './projects';
+import { commitFiles, git, makeRepo } from './test-utils';
+import { Workspace } from './workspace';
+
+let tmpDir: string;
+
+beforeEach(async () => {
+    tmpDir = await fsProm.mkdtemp(path.join(os.tmpdir(), 'allchange-test-'));
+});
+
+afterEach(async () => {
+    await fsProm.rm(tmpDir, { recursive: true });
+});
+
+test('Checks out and fetches repositories', async () => {
+    const originDir = await makeRepo(tmpDir, 'llama');
+    git(originDir, 'tag', 'v1.0.0');
+    const workspace = new Workspace(path.join(tmpDir, 'workspace'));
+
+    const checkoutDir = await workspace.checkout('llama', 'file://' + originDir);
+    expect(git(checkoutDir, 'rev-parse', 'origin/main')).toEqual(git(originDir, 'rev-parse', 'main'));
+    expect(git(checkoutDir, 'rev-parse', 'v1.0.0')).toEqual(git(originDir, 'rev-parse', 'v1.0.0'));
+    await fsProm.access(path.join(checkoutDir, 'release_config.yaml'));
+
+    // a fresh run picks up new commits and tags
+    await commitFiles(originDir, 'Add a llama', { 'llama.txt': 'llama' });
+    git(originDir, 'tag', 'v1.1.0');
+    const rerunDir = await new Workspace(workspace.dir).checkout('llama', 'file://' + originDir);
+    expect(rerunDir).toEqual(checkoutDir);
+    expect(git(checkoutDir, 'rev-parse', 'origin/main')).toEqual(git(originDir, 'rev-parse', 'main'));
+    expect(git(checkoutDir, 'rev-parse', 'v1.1.0')).toEqual(git(originDir, 'rev-parse', 'v1.1.0'));
+    await fsProm.access(path.join(checkoutDir, 'llama.txt'));
+});
+
+test('Branches updated and added on each checkout', async () => {
+    const originDir = await makeRepo(tmpDir, 'llama');
+    git(originDir, 'branch', 'develop');
+    const workspace = new Workspace(path.join(tmpDir, 'workspace'));
+    const bareDir = path.join(workspace.dir, 'llama.git');
+    await workspace.checkout('llama', 'file://' + originDir);
+
+    // upstream moves on: develop gets a new commit, and a release branch is cut from it
+    git(originDir, 'checkout', '--quiet', 'develop');
+    await commitFiles(originDir, 'Add a llama', { 'llama.txt': 'llama' });
+    git(originDir, 'branch', 'release-v1.1.0');
+    await new Workspace(workspace.dir).checkout('llama', 'file://' + originDir);
+
+    expect(git(bareDir, 'rev-parse', 'refs/heads/develop')).toEqual(git(originDir, 'rev-parse', 'develop'));
+    expect(git(bareDir, 'rev-parse', 'refs/heads/release-v1.1.0')).toEqual(git(originDir, 'rev-parse', 'develop'));
+    expect(git(bareDir, 'rev-parse', 'refs/remotes/origin/release-v1.1.0')).toEqual(
+        git(originDir, 'rev-parse', 'develop'),
+    );
+});
+
+test('Collects changes from subprojects cloned from their URL', async () => {
+    const subDir = await makeRepo(tmpDir, 'llama-core');
+    git(subDir, 'tag', 'v1.0.0');
+    await commitFiles(subDir, 'Make llamas faster\n\nType: feature');
+    git(subDir, 'tag', 'v1.1.0');
+
+    const dir = await makeRepo(tmpDir, 'llamalist', {
+        'release_config.yaml': [
+            'changeSource: commits',
+            'subprojects:',
+            '  llama-core:',
+            `    url: file://${subDir}`,
+            '    manifest: file',
+            '    key: LLAMA_CORE_VERSION',
+        ].join("\n"),
+        'LLAMA_CORE_VERSION': '1.0.0',
+    });
+    git(dir, 'tag', 'v1.0.0');
+    await commitFiles(dir, 'Upgrade llama-core', { 'LLAMA_CORE_VERSION': '1.1.0' });
+    git(dir, 'tag', 'v1.1.0');
+
+    const project = await Project.make('llamalist', dir);
+    project.workspace = new Workspace(path.join(tmpDir, 'workspace'));
+    const changes = {} as ChangesByProject;
+    await project.collectChanges(changes, 'v1.0.0', 'v1.1.0', BranchMode.Exact);
+
+    expect(changes['llamalist'].map(c => c.notes)).toEqual(['Upgrade llama-core']);
+    expect(changes['llama-core'].map(c => c.notes)).toEqual(['Make llamas faster']);
+    expect(changes['llama-core'][0].shouldInclude).toEqual(false);
+    expect(changes['llama-core'][0].inclusionReason).toEqual({
+        type: 'excluded-by-default',
+        via: ['llamalist', 'llama-core'],
+        excludedBy: 'llama-core',
+    });
+});
+
+test('Projects taking changes from commits do not look up advisories', async () => {
+    const dir = await makeRepo(tmpDir, 'llamalist');
+    git(dir, 'tag', 'v1.0.0');
+    await commitFiles(dir, 'Stop llamas escaping\n\nSecurity: GHSA-abcd-efgh-jkmp');
+    git(dir, 'tag', 'v1.1.0');
+
+    const project = await Project.make('llamalist', dir);
+    const getAdvisoryCve = jest.fn(async () => {
+        throw new Error('getaddrinfo ENOTFOUND api.github.com');
+    });
+    Object.assign(project.forge, { getAdvisoryCve });
+    const changes = {} as ChangesByProject;
+    await project.collectChanges(changes, 'v1.0.0', 'v1.1.0', BranchMode.Exact);
+
+    expect(changes['llamalist'][0].advisories).toEqual(['GHSA-abcd-efgh-jkmp']);
+    expect(getAdvisoryCve).not.toHaveBeenCalled();
+});
+
+test('Fails if a ref is missing', async () => {
+    const dir = await makeRepo(tmpDir, 'llamalist');
+    git(dir, 'tag', 'v1.0.0');
+
+    const project = await Project.make('llamalist', dir);
+    await expect(project.collectChanges({}, 'v1.0.0', 'v1.1.0', BranchMode.Exact)).rejects.toThrow(/v1.1.0/);
+});
@@ -0,0 +1,102 @@
+/*
+Copyright 2021 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import fsProm from 'fs/promises';
+import path from 'path';
+import log from 'loglevel';
+import { execFile } from 'child_process';
+
+import { defaultCacheDir } from './cache';
+import { loadReleaseConfig } from './projects';
+
+export function defaultWorkspaceDir(): string {
+    return path.join(defaultCacheDir(), 'workspace');
+}
+
+function git(dir: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, {
+            cwd: dir,
+        }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(`git ${args.join(' ')} failed in ${dir}: ${stderr.trim() || error.message}`));
+            } else {
+                resolve(stdout.trim());
+            }
+        });
+    });
+}
+
+async function exists(file: string): Promise<boolean> {
+    try {
+        await fsProm.access(file);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Checkouts of subprojects that aren't checked out locally, so nobody has to clone and fetch
+// them by hand before running us. Each repository is a bare clone, which holds the branches
+// and tags, plus a worktree of its default branch for reading the project's files.
+export class Workspace {
+    // so we only fetch each repository once per run
+    private fetched = new Map<string, string>();
+
+    constructor(public readonly dir = defaultWorkspaceDir()) {
+    }
+
+    // Clones the repository if we haven't already, and fetches its branches and tags.
+    // Returns the directory of the worktree.
+    public async checkout(name: string, url: string): Promise<string> {
+        if (this.fetched.has(url)) return this.fetched.get(url);
+
+        const dirName = name.replace(/[^\w.-]/g, '_');
+        const bareDir = path.join(this.dir, dirName + '.git');
+        const worktreeDir = path.join(this.dir, dirName);
+
+        if (!await exists(bareDir)) {
+            log.debug(`Cloning ${name} from ${url} into ${bareDir}`);
+            await fsProm.mkdir(this.dir, { recursive: true });
+            await git(this.dir, ['clone', '--quiet', '--bare', url, bareDir]);
+        } else if (await git(bareDir, ['remote', 'get-url', 'origin']) !== url) {
+            await git(bareDir, ['remote', 'set-url', 'origin', url]);
+        }
+
+        const defaultBranch = await git(bareDir, ['symbolic-ref', '--short', 'HEAD']);
+        if (!await exists(worktreeDir)) {
+            // detached, so fetching can update the branches under it
+            await git(bareDir, ['worktree', 'prune']);
+            await git(bareDir, ['worktree', 'add', '--quiet', '--detach', worktreeDir, defaultBranch]);
+        }
+
+        // The project compares against branches on its remote, so fetch them as the project
+        // expects them to be named, as well as into the branches themselves, which are what we
+        // look for release branches and read subprojects' manifests from. Nothing has them
+        // checked out, since the worktree is detached, so they can be moved.
+        const { remote } = (await loadReleaseConfig(worktreeDir)).versioning;
+        log.debug(`Fetching ${name} from ${url}`);
+        await git(bareDir, [
+            'fetch', '--quiet', '--prune', '--tags', '--force', url,
+            `+refs/heads/*:refs/remotes/${remote}/*`,
+            '+refs/heads/*:refs/heads/*',
+        ]);
+        await git(worktreeDir, ['checkout', '--quiet', '--force', '--detach', `${remote}/${defaultBranch}`]);
+
+        this.fetched.set(url, worktreeDir);
+        return worktreeDir;
+    }
+}